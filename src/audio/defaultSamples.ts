@@ -1,7 +1,15 @@
+import type { InstrumentType, SampleTuning } from '@/hooks/audio/types';
 
-export const defaultSamples = {
-  drums: '/samples/drums.mp3',
-  bass: '/samples/bass.mp3',
-  guitar: '/samples/guitar.mp3',
-  keys: '/samples/keys.mp3'
+export interface DefaultSample {
+  url: string;
+  tuning: SampleTuning;
+}
+
+// The bundled loops are recorded at 120 BPM, the pitched ones in C major.
+// The melody has no loop; it is always synthesized.
+export const defaultSamples: Partial<Record<InstrumentType, DefaultSample>> = {
+  drums: { url: '/samples/drums.mp3', tuning: { bpm: 120, key: null } },
+  bass: { url: '/samples/bass.mp3', tuning: { bpm: 120, key: 'C' } },
+  guitar: { url: '/samples/guitar.mp3', tuning: { bpm: 120, key: 'C' } },
+  keys: { url: '/samples/keys.mp3', tuning: { bpm: 120, key: 'C' } },
 };
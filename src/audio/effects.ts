@@ -0,0 +1,62 @@
+import * as Tone from 'tone';
+import type { InstrumentType } from '@/hooks/audio/types';
+import type { MoodProfile } from '@/lib/music/moods';
+
+// Shared reverb and delay that every instrument can send to
+export interface EffectReturns {
+  reverb: Tone.Reverb;
+  delay: Tone.FeedbackDelay;
+  dispose: () => void;
+}
+
+// One instrument's send levels into the shared effects
+export interface EffectSends {
+  reverb: Tone.Gain;
+  delay: Tone.Gain;
+  dispose: () => void;
+}
+
+// How much of the mood's send level each instrument takes; low end and drums stay drier
+const SEND_SCALE: Record<InstrumentType, { reverb: number; delay: number }> = {
+  drums: { reverb: 0.5, delay: 0.15 },
+  bass: { reverb: 0.2, delay: 0 },
+  guitar: { reverb: 1, delay: 1 },
+  keys: { reverb: 1, delay: 0.8 },
+  melody: { reverb: 1, delay: 1 },
+};
+
+// Create the effect returns in the current Tone context, feeding `destination`
+export const createEffectReturns = (destination: Tone.InputNode): EffectReturns => {
+  const reverb = new Tone.Reverb({ decay: 3.5, preDelay: 0.02, wet: 1 }).connect(destination);
+  const delay = new Tone.FeedbackDelay({ delayTime: '8n.', feedback: 0.35, wet: 1 }).connect(destination);
+  return {
+    reverb,
+    delay,
+    dispose: () => {
+      reverb.dispose();
+      delay.dispose();
+    },
+  };
+};
+
+// Send an instrument's signal to the effect returns, silent until levels are set
+export const createEffectSends = (source: Tone.ToneAudioNode, returns: EffectReturns): EffectSends => {
+  const reverb = new Tone.Gain(0).connect(returns.reverb);
+  const delay = new Tone.Gain(0).connect(returns.delay);
+  source.connect(reverb);
+  source.connect(delay);
+  return {
+    reverb,
+    delay,
+    dispose: () => {
+      reverb.dispose();
+      delay.dispose();
+    },
+  };
+};
+
+// Set an instrument's send levels from the mood
+export const setSendLevels = (sends: EffectSends, instrument: InstrumentType, mood: MoodProfile) => {
+  sends.reverb.gain.value = mood.sends.reverb * SEND_SCALE[instrument].reverb;
+  sends.delay.gain.value = mood.sends.delay * SEND_SCALE[instrument].delay;
+};
@@ -0,0 +1,71 @@
+import * as Tone from 'tone';
+import type { SampleTuning } from '@/hooks/audio/types';
+import type { Arrangement } from '@/lib/music/types';
+import { tempoAt } from '@/lib/music/tempo';
+import { onTransportJump } from './transport';
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+// Tempo a loop was recorded at. Loops without a tagged tempo aren't stretched, so they're taken
+// to be in the track's opening tempo.
+const loopTempo = (tuning: SampleTuning | null, arrangement: Arrangement) =>
+  tuning?.bpm ?? tempoAt(arrangement.tempoMap, 0);
+
+// Length of a loop in quarter notes of the track
+export const loopQuarters = (duration: number, tuning: SampleTuning | null, arrangement: Arrangement) =>
+  (duration * loopTempo(tuning, arrangement)) / 60;
+
+// Where a loop is in its buffer (seconds) at a Transport position (quarter notes). Passes are
+// counted from the start of the track, so every loop is phase-locked to bar 1.
+export const loopOffset = (duration: number, tuning: SampleTuning | null, arrangement: Arrangement, time: number) =>
+  ((time % loopQuarters(duration, tuning, arrangement)) * 60) / loopTempo(tuning, arrangement);
+
+// Run a loaded loop on a Transport's timeline (live or offline). It starts wherever the Transport
+// starts, resumes or loops back to, at the phase that position implies, stops when the Transport
+// pauses or stops, and restarts from the top at each of its loop points, so stretching can't drift
+// it off the beat.
+// A loop added to a running track joins at `from` (quarter notes), e.g. the next bar line.
+// Returns a function that takes the loop off the Transport.
+export const syncLoop = (
+  transport: Transport,
+  player: Tone.GrainPlayer,
+  tuning: SampleTuning | null,
+  arrangement: Arrangement,
+  from = 0
+): (() => void) => {
+  const duration = player.buffer.duration;
+  const length = loopQuarters(duration, tuning, arrangement);
+  const end = arrangement.totalBars * arrangement.beatsPerBar;
+  const ticks = (quarters: number) => `${Math.round(quarters * transport.PPQ)}i`;
+
+  // Starting a started player restarts it, but only at a later time: a Transport starting on a
+  // loop point asks twice
+  let lastStart = -Infinity;
+  const play = (time: number, position: number) => {
+    if (player.disposed || time <= lastStart) return;
+    lastStart = time;
+    player.start(time, loopOffset(duration, tuning, arrangement, position));
+  };
+
+  const onStop = (time: number) => {
+    if (!player.disposed) player.stop(time);
+  };
+
+  // Restart at every loop point of each pass; a loop joining a running track enters once at `from`
+  const ids: number[] = [];
+  for (let time = 0; length > 0 && time < end; time += length) {
+    ids.push(transport.schedule(at => play(at, time), ticks(time)));
+  }
+  if (from > 0) ids.push(transport.scheduleOnce(at => play(at, from), ticks(from)));
+
+  const offJump = onTransportJump(transport, play);
+  transport.on('pause', onStop);
+  transport.on('stop', onStop);
+
+  return () => {
+    ids.forEach(id => transport.clear(id));
+    offJump();
+    transport.off('pause', onStop);
+    transport.off('stop', onStop);
+  };
+};
@@ -0,0 +1,97 @@
+import * as Tone from 'tone';
+import { GM_DRUMS, type DrumVoice } from '@/lib/music/drums';
+import { noteToMidi } from '@/lib/music/theory';
+import type { InstrumentType } from '@/hooks/audio/types';
+
+// An abbreviation standing on its own, like "OH" in "OH_1.wav" (\b would take "_" as part of it)
+const abbreviation = (letters: string) => `(?:^|[^a-z])${letters}(?:$|[^a-z])`;
+const HAT = `h(i.?)?at|${abbreviation('hh')}`;
+
+// Words in drum sample names and the General MIDI note they play, most specific first
+const DRUM_NAMES: [RegExp, DrumVoice][] = [
+  [new RegExp(`^(?=.*open)(?=.*(${HAT}))|${abbreviation('oh')}`, 'i'), 'openHat'],
+  [/pedal|foot/i, 'pedalHat'],
+  [new RegExp(`${HAT}|${abbreviation('ch')}`, 'i'), 'closedHat'],
+  [/rim|stick/i, 'sideStick'],
+  [new RegExp(`snare|${abbreviation('sd')}`, 'i'), 'snare'],
+  [/clap/i, 'clap'],
+  [new RegExp(`kick|${abbreviation('bd')}|bass.?drum`, 'i'), 'kick'],
+  [/crash|cymbal/i, 'crash'],
+  [/ride/i, 'ride'],
+  [/(floor|low).?tom|tom.?(low|floor)/i, 'lowTom'],
+  [/(high|hi).?tom|tom.?(high|hi)/i, 'highTom'],
+  [/tom/i, 'midTom'],
+];
+
+// Pitches outside this range aren't trusted: below is rumble, above is mostly noise
+const MIN_FREQUENCY = 30;
+const MAX_FREQUENCY = 2000;
+const WINDOW = 4096;
+const MIN_CLARITY = 0.6; // Correlation at the detected period; lower means the sample isn't pitched
+
+// Root note in a file name, like "Piano_C#3.wav" or "bass-Eb1.mp3", or the drum a name describes
+export const rootNoteFromName = (name: string, instrument: InstrumentType): number | null => {
+  const base = name.replace(/\.[^.]+$/, '');
+  if (instrument === 'drums') {
+    const match = DRUM_NAMES.find(([pattern]) => pattern.test(base));
+    return match ? GM_DRUMS[match[1]] : null;
+  }
+  const note = /(?:^|[^A-Za-z])([A-G][#b]?)(-?[0-8])(?![0-9])/.exec(base);
+  return note ? noteToMidi(note[1], Number(note[2])) : null;
+};
+
+// Root note of a pitched sample by autocorrelation, read from a window just after the attack.
+// Returns null when no clear pitch is found.
+export const detectRootNote = (buffer: AudioBuffer): number | null => {
+  const data = buffer.getChannelData(0);
+  const start = Math.min(Math.round(buffer.sampleRate * 0.05), Math.max(0, data.length - WINDOW));
+  const window = data.subarray(start, start + WINDOW);
+  if (window.length < WINDOW / 2) return null;
+
+  const mean = window.reduce((sum, x) => sum + x, 0) / window.length;
+  const signal = window.map(x => x - mean);
+  const energy = signal.reduce((sum, x) => sum + x * x, 0);
+  if (energy === 0) return null;
+
+  const minLag = Math.floor(buffer.sampleRate / MAX_FREQUENCY);
+  const maxLag = Math.min(Math.ceil(buffer.sampleRate / MIN_FREQUENCY), signal.length - 1);
+  const correlation = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < signal.length; i++) sum += signal[i] * signal[i + lag];
+    return sum / energy;
+  };
+
+  const values = Array.from({ length: maxLag + 2 }, (_, lag) => correlation(lag));
+
+  // Skip the lobe around zero lag, which correlates with itself whatever the pitch, then look
+  // for the period only within the trusted range
+  let first = 1;
+  while (first < maxLag && values[first] > 0) first++;
+  first = Math.max(first, minLag);
+  const best = Math.max(...values.slice(first, maxLag + 1));
+  if (best < MIN_CLARITY) return null;
+
+  // The first peak nearly as strong as the best is the period; later ones are its multiples
+  let lag = first;
+  while (lag < maxLag && !(values[lag] >= best * 0.9 && values[lag] >= values[lag - 1] && values[lag] >= values[lag + 1])) lag++;
+
+  // Parabolic interpolation between neighbouring lags for a finer period
+  const [a, b, c] = [values[lag - 1], values[lag], values[lag + 1]];
+  const offset = a - 2 * b + c === 0 ? 0 : (a - c) / (2 * (a - 2 * b + c));
+  const frequency = buffer.sampleRate / (lag + offset);
+  return Math.round(69 + 12 * Math.log2(frequency / 440));
+};
+
+// Root note of an uploaded one-shot: from its name, or detected from its audio for pitched
+// instruments. Null when neither tells; the user enters it instead.
+export const findRootNote = async (file: File, instrument: InstrumentType): Promise<number | null> => {
+  const named = rootNoteFromName(file.name, instrument);
+  if (named !== null || instrument === 'drums') return named;
+  try {
+    const buffer = await Tone.getContext().decodeAudioData(await file.arrayBuffer());
+    return detectRootNote(buffer);
+  } catch (err) {
+    console.error(`Couldn't read ${file.name} to detect its root note:`, err);
+    return null;
+  }
+};
@@ -0,0 +1,110 @@
+import * as Tone from 'tone';
+import { createDrumKit, type PatternVoice } from './voices';
+import { midiToNoteName } from '@/lib/music/theory';
+import type { KitZone, SampleKit } from '@/hooks/audio/types';
+
+// A key zone: the notes a root's samples play, pitched from the nearest root
+export interface KeyZone {
+  root: number;
+  low: number;
+  high: number;
+}
+
+// One velocity layer: a sampler for each round-robin turn, each mapping every root to a sample
+interface Layer {
+  velocity: number;
+  roots: Set<number>;
+  samplers: Tone.Sampler[];
+  turns: Map<number, number>; // Next turn for each note played
+}
+
+// Key zones of a set of roots: each note is played by the nearest root
+export const keyZones = (roots: number[]): KeyZone[] => {
+  const sorted = [...new Set(roots)].sort((a, b) => a - b);
+  return sorted.map((root, i) => ({
+    root,
+    low: i === 0 ? 0 : Math.floor((sorted[i - 1] + root) / 2) + 1,
+    high: i === sorted.length - 1 ? 127 : Math.floor((root + sorted[i + 1]) / 2),
+  }));
+};
+
+// Group a layer's zones by root, keeping upload order for the round-robin
+const zonesByRoot = (zones: KitZone[]) => {
+  const byRoot = new Map<number, string[]>();
+  zones.forEach(zone => byRoot.set(zone.root, [...(byRoot.get(zone.root) ?? []), zone.url]));
+  return byRoot;
+};
+
+const loadSampler = (urls: Record<number, string>, output: Tone.Gain) =>
+  new Promise<Tone.Sampler>((resolve, reject) => {
+    const sampler: Tone.Sampler = new Tone.Sampler({
+      urls,
+      release: 0.1,
+      onload: () => resolve(sampler),
+      onerror: reject,
+    }).connect(output);
+  });
+
+// Play generated parts with a kit's one-shots: a sampler per velocity layer and round-robin turn.
+// Pitched kits stretch their roots across key zones; drum kits play only the notes they have and
+// leave the rest to the synthesized drums. Creates its nodes in the current Tone context, so it also
+// works offline. Rejects when a sample fails to load.
+export const loadSamplerVoice = async (kit: SampleKit): Promise<PatternVoice> => {
+  const output = new Tone.Gain(1);
+  const drums = kit.instrument === 'drums';
+  const fallback = drums ? createDrumKit() : null;
+  fallback?.output.connect(output);
+
+  const velocities = [...new Set(kit.zones.map(zone => zone.velocity))].sort((a, b) => a - b);
+  const layers: Layer[] = [];
+  try {
+    for (const velocity of velocities) {
+      const byRoot = zonesByRoot(kit.zones.filter(zone => zone.velocity === velocity));
+      const turns = Math.max(...[...byRoot.values()].map(urls => urls.length));
+      const samplers = await Promise.all(Array.from({ length: turns }, (_, turn) =>
+        loadSampler(
+          Object.fromEntries([...byRoot].map(([root, urls]) => [root, urls[turn % urls.length]])),
+          output
+        )
+      ));
+      layers.push({ velocity, roots: new Set(byRoot.keys()), samplers, turns: new Map() });
+    }
+  } catch (err) {
+    layers.forEach(layer => layer.samplers.forEach(sampler => sampler.dispose()));
+    fallback?.dispose();
+    output.dispose();
+    throw err;
+  }
+
+  // The loudest layer the velocity reaches, among those that can play the note
+  const layerFor = (midi: number, velocity: number) => {
+    const playable = drums ? layers.filter(layer => layer.roots.has(midi)) : layers;
+    const reached = playable.filter(layer => layer.velocity <= velocity * 127);
+    return reached[reached.length - 1] ?? playable[0];
+  };
+
+  const trigger: PatternVoice['trigger'] = (midi, duration, time, velocity) => {
+    const layer = layerFor(midi, velocity);
+    if (!layer) {
+      fallback?.trigger(midi, duration, time, velocity);
+      return;
+    }
+    const turn = layer.turns.get(midi) ?? 0;
+    layer.turns.set(midi, turn + 1);
+    const sampler = layer.samplers[turn % layer.samplers.length];
+    const note = midiToNoteName(midi);
+    // Drum hits ring out to the end of their sample
+    if (drums) sampler.triggerAttack(note, time, velocity);
+    else sampler.triggerAttackRelease(note, duration, time, velocity);
+  };
+
+  return {
+    output,
+    trigger,
+    dispose: () => {
+      layers.forEach(layer => layer.samplers.forEach(sampler => sampler.dispose()));
+      fallback?.dispose();
+      output.dispose();
+    },
+  };
+};
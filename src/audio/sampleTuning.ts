@@ -0,0 +1,68 @@
+import * as Tone from 'tone';
+import type { InstrumentTrack, SampleTuning } from '@/hooks/audio/types';
+import type { Arrangement } from '@/lib/music/types';
+import { TONICS, noteToPitchClass, parentMajor, type Mode } from '@/lib/music/theory';
+import { steppedTempoMap, tempoAt } from '@/lib/music/tempo';
+import { getSectionAtBar } from '@/lib/music/arrangement';
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+// A loop player and the tempo and key its sample was recorded in
+export interface TunedLoop {
+  player: Tone.GrainPlayer;
+  tuning: SampleTuning;
+}
+
+// The instruments' loops with a known tempo and key
+export const tunedLoops = (instruments: InstrumentTrack[]): TunedLoop[] =>
+  instruments.flatMap(({ player, sampleTuning }) => (player && sampleTuning ? [{ player, tuning: sampleTuning }] : []));
+
+// Keys a sample can be tagged with: every tonic, major and minor
+export const SAMPLE_KEYS = TONICS.flatMap(tonic => [tonic, `${tonic}m`]);
+
+// Shorter grains than Tone's default keep drum hits tight when a loop is stretched
+export const LOOP_GRAINS = { grainSize: 0.1, overlap: 0.05 };
+
+// Tempo ramps are followed with a rate change every eighth note
+const RAMP_STEP = 0.5;
+
+// Tonic and mode of a sample key ("F#m"), or null when it isn't one
+export const parseSampleKey = (key: string): { tonic: string; mode: Mode } | null => {
+  const match = /^([A-G][#b]?)(m?)$/.exec(key.trim());
+  return match ? { tonic: match[1], mode: match[2] ? 'minor' : 'major' } : null;
+};
+
+// Semitones that bring a sample's key to a section's key, the shorter way round (-6 to +5).
+// Keys are compared by their parent major scales, so a loop in A minor plays untouched in C major.
+export const keyShift = (sampleKey: string | null, key: string, mode: Mode): number => {
+  const source = sampleKey ? parseSampleKey(sampleKey) : null;
+  if (!source) return 0;
+  const shift = noteToPitchClass(parentMajor(key, mode)) - noteToPitchClass(parentMajor(source.tonic, source.mode));
+  return ((shift % 12) + 18) % 12 - 6;
+};
+
+// Stretch and shift a loop to the tempo and key at a position of the arrangement (quarter notes)
+export const tuneLoop = ({ player, tuning }: TunedLoop, arrangement: Arrangement, time: number) => {
+  const section = getSectionAtBar(arrangement, Math.floor(time / arrangement.beatsPerBar)) ?? arrangement.sections[0];
+  player.playbackRate = tuning.bpm ? tempoAt(arrangement.tempoMap, time) / tuning.bpm : 1;
+  player.detune = keyShift(tuning.key, section.key, section.mode) * 100;
+};
+
+// Schedule the arrangement's tempo and key changes for the loops on a Transport (live or offline).
+// `loops` is asked at every change, so loops that finish loading later follow too.
+// Returns the event ids so the caller can clear them.
+export const scheduleLoopTuning = (transport: Transport, arrangement: Arrangement, loops: () => TunedLoop[]): number[] => {
+  const end = arrangement.totalBars * arrangement.beatsPerBar;
+  const times = [
+    ...steppedTempoMap(arrangement.tempoMap, RAMP_STEP).map(point => point.time),
+    ...arrangement.sections.map(section => section.startBar * arrangement.beatsPerBar),
+  ];
+
+  return [...new Set(times)]
+    .filter(time => time < end)
+    .sort((a, b) => a - b)
+    .map(time => transport.schedule(() => {
+      // The grain player's rate and detune aren't signals; the change applies from its next grain
+      loops().forEach(loop => tuneLoop(loop, arrangement, time));
+    }, `${Math.round(time * transport.PPQ)}i`));
+};
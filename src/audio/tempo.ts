@@ -0,0 +1,37 @@
+import * as Tone from 'tone';
+import type { Arrangement } from '@/lib/music/types';
+import { secondsAt, tempoAt } from '@/lib/music/tempo';
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+// Schedule an arrangement's tempo map on a Transport (live or offline).
+// Returns the event ids so the caller can clear them.
+export const scheduleTempoMap = (transport: Transport, arrangement: Arrangement): number[] => {
+  const { tempoMap } = arrangement;
+  const end = arrangement.totalBars * arrangement.beatsPerBar;
+  transport.bpm.value = tempoMap[0].bpm;
+
+  return tempoMap
+    .map((point, i) => ({ point, next: tempoMap[i + 1] }))
+    .filter(({ point }) => point.time < end)
+    .map(({ point, next }) => transport.schedule(time => {
+      // Ramp targets were already reached by the previous point's ramp
+      if (!point.ramp) transport.bpm.setValueAtTime(point.bpm, time);
+      if (next?.ramp) {
+        const rampSeconds = secondsAt(tempoMap, next.time) - secondsAt(tempoMap, point.time);
+        transport.bpm.linearRampToValueAtTime(next.bpm, time + rampSeconds);
+      }
+    }, `${Math.round(point.time * transport.PPQ)}i`));
+};
+
+// Set a Transport's tempo where it jumps to a position (quarter notes) at `time`: a seek, a resume or
+// a loop region starting again. A ramp under way there carries on to its target.
+export const setTempoAt = (transport: Transport, arrangement: Arrangement, position: number, time: number) => {
+  const { tempoMap } = arrangement;
+  transport.bpm.cancelScheduledValues(time);
+  transport.bpm.setValueAtTime(tempoAt(tempoMap, position), time);
+  const next = tempoMap.find(point => point.time > position);
+  if (next?.ramp) {
+    transport.bpm.linearRampToValueAtTime(next.bpm, time + secondsAt(tempoMap, next.time) - secondsAt(tempoMap, position));
+  }
+};
@@ -0,0 +1,35 @@
+import * as Tone from 'tone';
+import type { LoopRegion } from '@/hooks/audio/types';
+import type { Arrangement } from '@/lib/music/types';
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+// A loop region that fits the arrangement: at least a bar long and inside the form, or null
+export const clampLoopRegion = (region: LoopRegion | null, totalBars: number): LoopRegion | null => {
+  if (!region || totalBars < 1) return null;
+  const startBar = Math.min(Math.max(0, Math.floor(region.startBar)), totalBars - 1);
+  const endBar = Math.min(totalBars, Math.max(startBar + 1, Math.floor(region.endBar)));
+  return { startBar, endBar };
+};
+
+// Loop the Transport over a region of the arrangement, or over the whole form without one
+export const setLoopRegion = (transport: Transport, arrangement: Arrangement, region: LoopRegion | null) => {
+  const { startBar, endBar } = clampLoopRegion(region, arrangement.totalBars) ?? { startBar: 0, endBar: arrangement.totalBars };
+  const ticks = (bar: number) => `${Math.round(bar * arrangement.beatsPerBar * transport.PPQ)}i`;
+  transport.loop = true;
+  transport.loopStart = ticks(startBar);
+  transport.loopEnd = ticks(endBar);
+};
+
+// Call `listener` whenever the Transport continues from a new position: when it starts or resumes
+// (also after a seek while playing) and when it loops back. Receives the audio time and the
+// position in quarter notes. Returns a function that removes the listener.
+export const onTransportJump = (transport: Transport, listener: (time: number, position: number) => void): (() => void) => {
+  const jump = (time: number) => listener(time, transport.getTicksAtTime(time) / transport.PPQ);
+  transport.on('start', jump);
+  transport.on('loopStart', jump);
+  return () => {
+    transport.off('start', jump);
+    transport.off('loopStart', jump);
+  };
+};
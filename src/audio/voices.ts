@@ -0,0 +1,220 @@
+import * as Tone from 'tone';
+import { GM_DRUMS } from '@/lib/music/drums';
+import { midiToFrequency } from '@/lib/music/theory';
+import type { InstrumentType } from '@/hooks/audio/types';
+
+// A synthesized instrument that plays generated note events
+export interface PatternVoice {
+  output: Tone.Gain;
+  trigger: (midi: number, duration: Tone.Unit.Time, time: number, velocity: number) => void;
+  dispose: () => void;
+}
+
+// Synthesized drum kit that responds to General MIDI percussion notes.
+// Creates its nodes in the current Tone context, so it also works offline.
+export const createDrumKit = (): PatternVoice => {
+  const output = new Tone.Gain(1);
+
+  const kick = new Tone.MembraneSynth({
+    pitchDecay: 0.05,
+    octaves: 6,
+    envelope: { attack: 0.001, decay: 0.4, sustain: 0, release: 0.1 },
+  }).connect(output);
+
+  const toms = new Tone.MembraneSynth({
+    pitchDecay: 0.08,
+    octaves: 3,
+    envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.1 },
+  }).connect(output);
+
+  const snare = new Tone.NoiseSynth({
+    noise: { type: 'white' },
+    envelope: { attack: 0.001, decay: 0.18, sustain: 0 },
+  }).connect(output);
+
+  const clap = new Tone.NoiseSynth({
+    noise: { type: 'pink' },
+    envelope: { attack: 0.005, decay: 0.12, sustain: 0 },
+  }).connect(output);
+
+  const hats = new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 0.06, release: 0.01 },
+    harmonicity: 5.1,
+    modulationIndex: 32,
+    resonance: 4000,
+    octaves: 1.5,
+  }).connect(output);
+  hats.volume.value = -14;
+
+  const ride = new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 0.8, release: 0.2 },
+    harmonicity: 5.1,
+    modulationIndex: 40,
+    resonance: 5000,
+    octaves: 1,
+  }).connect(output);
+  ride.volume.value = -20;
+
+  const crash = new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 1.5, release: 0.4 },
+    harmonicity: 5.1,
+    modulationIndex: 48,
+    resonance: 4500,
+    octaves: 1.5,
+  }).connect(output);
+  crash.volume.value = -16;
+
+  const voices = [kick, toms, snare, clap, hats, ride, crash];
+
+  // Monophonic synths can't start twice at the same instant (e.g. open and closed hat on one step)
+  const lastTimes = new Map<object, number>();
+  const isFree = (voice: object, time: number) => {
+    if ((lastTimes.get(voice) ?? -1) >= time) return false;
+    lastTimes.set(voice, time);
+    return true;
+  };
+
+  const trigger: PatternVoice['trigger'] = (midi, duration, time, velocity) => {
+    switch (midi) {
+      case GM_DRUMS.kick:
+        if (isFree(kick, time)) kick.triggerAttackRelease('C1', '16n', time, velocity);
+        break;
+      case GM_DRUMS.lowTom:
+        if (isFree(toms, time)) toms.triggerAttackRelease('G1', '8n', time, velocity);
+        break;
+      case GM_DRUMS.midTom:
+        if (isFree(toms, time)) toms.triggerAttackRelease('C2', '8n', time, velocity);
+        break;
+      case GM_DRUMS.highTom:
+        if (isFree(toms, time)) toms.triggerAttackRelease('F2', '8n', time, velocity);
+        break;
+      case GM_DRUMS.snare:
+        if (isFree(snare, time)) snare.triggerAttackRelease('16n', time, velocity);
+        break;
+      case GM_DRUMS.sideStick:
+        if (isFree(snare, time)) snare.triggerAttackRelease('64n', time, velocity * 0.5);
+        break;
+      case GM_DRUMS.clap:
+        if (isFree(clap, time)) clap.triggerAttackRelease('16n', time, velocity);
+        break;
+      case GM_DRUMS.closedHat:
+      case GM_DRUMS.pedalHat:
+        if (isFree(hats, time)) hats.triggerAttackRelease(300, '32n', time, velocity);
+        break;
+      case GM_DRUMS.openHat:
+        if (isFree(hats, time)) hats.triggerAttackRelease(300, '8n', time, velocity);
+        break;
+      case GM_DRUMS.ride:
+        if (isFree(ride, time)) ride.triggerAttackRelease(500, duration, time, velocity);
+        break;
+      case GM_DRUMS.crash:
+        if (isFree(crash, time)) crash.triggerAttackRelease(250, '2n', time, velocity);
+        break;
+      default:
+        break;
+    }
+  };
+
+  return {
+    output,
+    trigger,
+    dispose: () => {
+      voices.forEach(voice => voice.dispose());
+      output.dispose();
+    },
+  };
+};
+
+// Monophonic filtered-saw bass
+export const createBassSynth = (): PatternVoice => {
+  const output = new Tone.Gain(1);
+  const synth = new Tone.MonoSynth({
+    oscillator: { type: 'sawtooth' },
+    filter: { type: 'lowpass', Q: 2 },
+    envelope: { attack: 0.005, decay: 0.2, sustain: 0.6, release: 0.08 },
+    filterEnvelope: { attack: 0.005, decay: 0.15, sustain: 0.3, release: 0.2, baseFrequency: 120, octaves: 2.5 },
+  }).connect(output);
+  synth.volume.value = -6;
+
+  return {
+    output,
+    trigger: (midi, duration, time, velocity) => {
+      synth.triggerAttackRelease(midiToFrequency(midi), duration, time, velocity);
+    },
+    dispose: () => {
+      synth.dispose();
+      output.dispose();
+    },
+  };
+};
+
+// Wrap a polyphonic synth as a pattern voice
+const polyVoice = (synth: Tone.PolySynth, output: Tone.Gain): PatternVoice => ({
+  output,
+  trigger: (midi, duration, time, velocity) => {
+    synth.triggerAttackRelease(midiToFrequency(midi), duration, time, velocity);
+  },
+  dispose: () => {
+    synth.dispose();
+    output.dispose();
+  },
+});
+
+// Soft electric-piano style keys
+export const createKeysSynth = (): PatternVoice => {
+  const output = new Tone.Gain(1);
+  const synth = new Tone.PolySynth(Tone.FMSynth, {
+    harmonicity: 3,
+    modulationIndex: 2,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.01, decay: 1.2, sustain: 0.4, release: 0.8 },
+    modulationEnvelope: { attack: 0.01, decay: 0.4, sustain: 0.2, release: 0.5 },
+  }).connect(output);
+  synth.maxPolyphony = 16;
+  synth.volume.value = -10;
+  return polyVoice(synth, output);
+};
+
+// Plucked guitar; strums arrive as separate, slightly delayed notes
+export const createGuitarSynth = (): PatternVoice => {
+  const output = new Tone.Gain(1);
+  const synth = new Tone.PolySynth(Tone.Synth, {
+    oscillator: { type: 'fattriangle', count: 2, spread: 12 },
+    envelope: { attack: 0.002, decay: 0.6, sustain: 0.15, release: 0.3 },
+  }).connect(output);
+  synth.maxPolyphony = 24;
+  synth.volume.value = -12;
+  return polyVoice(synth, output);
+};
+
+// Single-voice lead with a gentle vibrato for the guide melody
+export const createLeadSynth = (): PatternVoice => {
+  const output = new Tone.Gain(1);
+  const vibrato = new Tone.Vibrato(5, 0.08).connect(output);
+  const synth = new Tone.Synth({
+    oscillator: { type: 'triangle' },
+    envelope: { attack: 0.03, decay: 0.2, sustain: 0.7, release: 0.3 },
+  }).connect(vibrato);
+  synth.volume.value = -6;
+
+  return {
+    output,
+    trigger: (midi, duration, time, velocity) => {
+      synth.triggerAttackRelease(midiToFrequency(midi), duration, time, velocity);
+    },
+    dispose: () => {
+      synth.dispose();
+      vibrato.dispose();
+      output.dispose();
+    },
+  };
+};
+
+// Instruments that can synthesize their generated part
+export const PATTERN_VOICES: Partial<Record<InstrumentType, () => PatternVoice>> = {
+  drums: createDrumKit,
+  bass: createBassSynth,
+  guitar: createGuitarSynth,
+  keys: createKeysSynth,
+  melody: createLeadSynth,
+};
@@ -0,0 +1,70 @@
+
+import React from 'react';
+import type { Arrangement } from '@/lib/music/types';
+import { INSTRUMENT_IDS } from '@/lib/music/arrangement';
+import { resolveTonic } from '@/lib/music/theory';
+
+interface ArrangementViewProps {
+  arrangement: Arrangement;
+}
+
+// Colours per section type, from the studio palette
+const SECTION_COLORS: Record<string, string> = {
+  intro: 'bg-sky-500/20 border-sky-500/40',
+  verse: 'bg-studio-accent/20 border-studio-accent/40',
+  chorus: 'bg-amber-500/20 border-amber-500/40',
+  bridge: 'bg-emerald-500/20 border-emerald-500/40',
+  outro: 'bg-slate-500/20 border-slate-500/40',
+};
+
+const ArrangementView: React.FC<ArrangementViewProps> = ({ arrangement }) => {
+  // Hide the melody lane when no section has one
+  const instrumentIds = INSTRUMENT_IDS.filter(id => id !== 'melody' || arrangement.sections.some(section => section.instruments.melody));
+  
+  return (
+    <div className="bg-[#232436] rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Arrangement</h3>
+        <span className="text-xs text-muted-foreground">{arrangement.totalBars} bars</span>
+      </div>
+
+      <div className="flex w-full gap-1 overflow-x-auto">
+        {arrangement.sections.map((section, index) => {
+          // Key changes are highlighted where they happen
+          const previous = arrangement.sections[index - 1];
+          const modulates = previous !== undefined && (previous.key !== section.key || previous.mode !== section.mode);
+          return (
+            <div
+              key={`${section.label}-${section.startBar}`}
+              className={`rounded border p-2 min-w-[80px] ${SECTION_COLORS[section.name]}`}
+              style={{ flexGrow: section.bars, flexBasis: 0 }}
+              title={`${section.label}: bars ${section.startBar + 1}-${section.startBar + section.bars}`}
+            >
+              <div className="flex items-baseline justify-between gap-1">
+                <span className="text-sm font-medium">{section.label}</span>
+                <span className={`text-[10px] whitespace-nowrap ${modulates ? 'text-amber-300 font-semibold' : 'text-muted-foreground'}`}>
+                  {modulates && '→ '}{resolveTonic(section.key, section.mode)} {section.mode}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                {section.chords.map(slot => slot.chord.name).join(' ')}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {instrumentIds.map(id => (
+                  <span
+                    key={id}
+                    className={`text-[10px] uppercase ${section.instruments[id] ? 'text-white' : 'text-muted-foreground/40 line-through'}`}
+                  >
+                    {id[0]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ArrangementView;
@@ -25,6 +25,10 @@ const DebugPanel: React.FC<DebugPanelProps> = ({
   const loadedSamples = instruments.filter(inst => inst.loadingState === 'loaded').length;
   const totalSamples = instruments.length;
   
+  // Locked chords and parts
+  const lockedChords = trackSettings.progression?.filter(chord => chord.locked).length ?? 0;
+  const lockedParts = Object.keys(trackSettings.locks.parts);
+  
   return (
     <div className="p-4 bg-studio-panel rounded-lg font-mono">
       <h3 className="text-lg font-semibold mb-2">Debug Panel</h3>
@@ -39,9 +43,19 @@ const DebugPanel: React.FC<DebugPanelProps> = ({
             </div>
             <div><span className="text-studio-accent">Playback:</span> {isPlaying ? "Playing" : "Stopped"}</div>
             <div><span className="text-studio-accent">BPM:</span> {trackSettings.bpm}</div>
+            <div><span className="text-studio-accent">Tempo Ending:</span> {trackSettings.tempo.ending}</div>
             <div><span className="text-studio-accent">Key:</span> {trackSettings.key}</div>
+            <div><span className="text-studio-accent">Mode:</span> {trackSettings.mode}</div>
+            <div><span className="text-studio-accent">Key Changes:</span> bridge {trackSettings.modulation.bridge}, lift +{trackSettings.modulation.finalLift}</div>
             <div><span className="text-studio-accent">Genre:</span> {trackSettings.genre}</div>
             <div><span className="text-studio-accent">Mood:</span> {trackSettings.mood}</div>
+            <div><span className="text-studio-accent">Seed:</span> {trackSettings.seed}</div>
+            <div><span className="text-studio-accent">Time Signature:</span> {trackSettings.timeSignature}</div>
+            <div><span className="text-studio-accent">Melody:</span> {trackSettings.melody ? 'on' : 'off'}</div>
+            <div>
+              <span className="text-studio-accent">Locks:</span> {lockedChords} chords
+              {lockedParts.length > 0 && `, parts: ${lockedParts.join(', ')}`}
+            </div>
           </div>
           
           <div className="space-y-1">
@@ -1,36 +1,82 @@
 
 import React from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Dices, Upload } from "lucide-react";
+import { MODES, TONICS, type Mode } from "@/lib/music/theory";
+import { MAX_SEED, randomSeed } from "@/lib/music/random";
+import { TRACK_LENGTHS } from "@/lib/music/arrangement";
+import { TIME_SIGNATURES, type TimeSignature } from "@/lib/music/meter";
+import { BRIDGE_KEYS, FINAL_LIFTS } from "@/lib/music/modulation";
+import { MOODS, getMoodProfile } from "@/lib/music/moods";
+import type { GenreDefinition } from "@/lib/music/genres";
+import type { BridgeKey, ModulationSettings } from "@/hooks/audio/types";
 
 interface GenreSelectorProps {
   genre: string;
   setGenre: (genre: string) => void;
+  genres: GenreDefinition[];
+  onImportGenre: (file: File) => void;
   mood: string;
   setMood: (mood: string) => void;
   bpm: number;
   setBpm: (bpm: number) => void;
   musicalKey: string;
   setMusicalKey: (key: string) => void;
+  mode: Mode;
+  setMode: (mode: Mode) => void;
+  seed: number;
+  setSeed: (seed: number) => void;
+  duration: number;
+  setDuration: (duration: number) => void;
+  melody: boolean;
+  setMelody: (melody: boolean) => void;
+  timeSignature: TimeSignature;
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+  modulation: ModulationSettings;
+  setModulation: (modulation: ModulationSettings) => void;
 }
 
 const GenreSelector: React.FC<GenreSelectorProps> = ({ 
   genre, 
   setGenre, 
+  genres,
+  onImportGenre,
   mood, 
   setMood, 
   bpm, 
   setBpm, 
   musicalKey, 
-  setMusicalKey 
+  setMusicalKey,
+  mode,
+  setMode,
+  seed,
+  setSeed,
+  duration,
+  setDuration,
+  melody,
+  setMelody,
+  timeSignature,
+  setTimeSignature,
+  modulation,
+  setModulation
 }) => {
-  // Genre options
-  const genres = ["rock", "pop", "hip-hop", "jazz", "electronic", "ambient"];
-  
   // Mood options
-  const moods = ["energetic", "relaxed", "dark", "upbeat", "atmospheric", "intense"];
+  const moods = MOODS;
+  const [minBpm, maxBpm] = getMoodProfile(mood).bpm;
   
   // Musical key options
-  const keys = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+  const keys = TONICS;
+  
+  // Labels for the key changes
+  const bridgeKeyLabels: Record<BridgeKey, string> = {
+    home: "Same key",
+    relative: "Relative key",
+    subdominant: "IV key",
+  };
+  const liftLabels = ["None", "Half step up", "Whole step up"];
   
   return (
     <div className="p-4 bg-studio-panel rounded-lg">
@@ -38,16 +84,34 @@ const GenreSelector: React.FC<GenreSelectorProps> = ({
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <label className="text-sm">Genre</label>
-          <Select value={genre} onValueChange={setGenre}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select Genre" />
-            </SelectTrigger>
-            <SelectContent>
-              {genres.map(g => (
-                <SelectItem key={g} value={g}>{g}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex gap-2">
+            <Select value={genre} onValueChange={setGenre}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select Genre" />
+              </SelectTrigger>
+              <SelectContent>
+                {genres.map(g => (
+                  <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              id="import-genre"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportGenre(file);
+                e.target.value = '';
+              }}
+            />
+            <Button type="button" variant="outline" size="icon" asChild title="Import genre from JSON">
+              <label htmlFor="import-genre" className="cursor-pointer">
+                <Upload className="w-4 h-4" />
+              </label>
+            </Button>
+          </div>
         </div>
         
         <div className="space-y-2">
@@ -65,7 +129,7 @@ const GenreSelector: React.FC<GenreSelectorProps> = ({
         </div>
         
         <div className="space-y-2">
-          <label className="text-sm">BPM</label>
+          <label className="text-sm">BPM <span className="text-xs text-muted-foreground">({mood} suits {minBpm}-{maxBpm})</span></label>
           <Select value={bpm.toString()} onValueChange={(val) => setBpm(Number(val))}>
             <SelectTrigger>
               <SelectValue placeholder="Select BPM" />
@@ -91,6 +155,110 @@ const GenreSelector: React.FC<GenreSelectorProps> = ({
             </SelectContent>
           </Select>
         </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Mode</label>
+          <Select value={mode} onValueChange={(val) => setMode(val as Mode)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Mode" />
+            </SelectTrigger>
+            <SelectContent>
+              {MODES.map(m => (
+                <SelectItem key={m} value={m}>{m}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Bridge Key</label>
+          <Select value={modulation.bridge} onValueChange={(val) => setModulation({ ...modulation, bridge: val as BridgeKey })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Bridge Key" />
+            </SelectTrigger>
+            <SelectContent>
+              {BRIDGE_KEYS.map(k => (
+                <SelectItem key={k} value={k}>{bridgeKeyLabels[k]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Last Chorus Lift</label>
+          <Select value={modulation.finalLift.toString()} onValueChange={(val) => setModulation({ ...modulation, finalLift: Number(val) })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Lift" />
+            </SelectTrigger>
+            <SelectContent>
+              {FINAL_LIFTS.map(lift => (
+                <SelectItem key={lift} value={lift.toString()}>{liftLabels[lift]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Time Signature</label>
+          <Select value={timeSignature} onValueChange={(val) => setTimeSignature(val as TimeSignature)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Time Signature" />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_SIGNATURES.map(signature => (
+                <SelectItem key={signature} value={signature}>{signature}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Length</label>
+          <Select value={duration.toString()} onValueChange={(val) => setDuration(Number(val))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Length" />
+            </SelectTrigger>
+            <SelectContent>
+              {(TRACK_LENGTHS.includes(duration) ? TRACK_LENGTHS : [...TRACK_LENGTHS, duration].sort((a, b) => a - b)).map(bars => (
+                <SelectItem key={bars} value={bars.toString()}>{bars} bars</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <label className="text-sm">Seed</label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={MAX_SEED}
+              value={seed}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value)) setSeed(Math.min(MAX_SEED, Math.max(0, value)));
+              }}
+              className="font-mono"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => setSeed(randomSeed())}
+              title="New random seed"
+            >
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        
+        <div className="space-y-2">
+          <label htmlFor="melody-toggle" className="text-sm">Melody</label>
+          <div className="flex items-center h-10 gap-2">
+            <Switch id="melody-toggle" checked={melody} onCheckedChange={setMelody} />
+            <span className="text-xs text-muted-foreground">Guide melody over the chords</span>
+          </div>
+        </div>
       </div>
     </div>
   );
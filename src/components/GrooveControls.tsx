@@ -0,0 +1,141 @@
+
+import React from 'react';
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AccentCurve, GrooveSettings, InstrumentType, SwingSubdivision } from "@/hooks/audio/types";
+import { ACCENT_CURVES } from "@/lib/music/groove";
+import { INSTRUMENT_IDS } from "@/lib/music/arrangement";
+
+interface GrooveControlsProps {
+  groove: GrooveSettings;
+  setGroove: (groove: GrooveSettings) => void;
+  melody: boolean;
+}
+
+// Per-instrument swing choices; "global" follows the main swing slider
+const INSTRUMENT_SWING_OPTIONS = [
+  { value: 'global', label: 'Global' },
+  { value: '0', label: 'Straight' },
+  { value: '0.25', label: 'Light' },
+  { value: '0.5', label: 'Medium' },
+  { value: '0.75', label: 'Heavy' },
+  { value: '1', label: 'Triplet' },
+];
+
+const GrooveControls: React.FC<GrooveControlsProps> = ({ groove, setGroove, melody }) => {
+  const update = (changes: Partial<GrooveSettings>) => setGroove({ ...groove, ...changes });
+
+  const setInstrumentSwing = (instrument: InstrumentType, value: string) => {
+    const instrumentSwing = { ...groove.instrumentSwing };
+    if (value === 'global') {
+      delete instrumentSwing[instrument];
+    } else {
+      instrumentSwing[instrument] = Number(value);
+    }
+    update({ instrumentSwing });
+  };
+
+  const instruments = INSTRUMENT_IDS.filter(id => id !== 'melody' || melody);
+
+  return (
+    <div className="p-4 bg-studio-panel rounded-lg border border-white/5">
+      <h3 className="text-lg font-semibold mb-4">Groove</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm flex justify-between">
+            <span>Swing</span>
+            <span className="text-xs font-mono text-muted-foreground">{Math.round(groove.swing * 100)}%</span>
+          </label>
+          <Slider
+            value={[groove.swing * 100]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => update({ swing: value / 100 })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm">Swing on</label>
+          <Select value={groove.swingSubdivision} onValueChange={(val) => update({ swingSubdivision: val as SwingSubdivision })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Subdivision" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="8n">8th notes</SelectItem>
+              <SelectItem value="16n">16th notes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm flex justify-between">
+            <span>Timing jitter</span>
+            <span className="text-xs font-mono text-muted-foreground">±{groove.timingJitter} ms</span>
+          </label>
+          <Slider
+            value={[groove.timingJitter]}
+            min={0}
+            max={30}
+            step={1}
+            onValueChange={([value]) => update({ timingJitter: value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm flex justify-between">
+            <span>Velocity variation</span>
+            <span className="text-xs font-mono text-muted-foreground">{Math.round(groove.velocityVariation * 100)}%</span>
+          </label>
+          <Slider
+            value={[groove.velocityVariation * 100]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => update({ velocityVariation: value / 100 })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm">Accents</label>
+          <Select value={groove.accent} onValueChange={(val) => update({ accent: val as AccentCurve })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Accent curve" />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCENT_CURVES.map(curve => (
+                <SelectItem key={curve} value={curve}>{curve}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label className="text-sm">Swing per instrument</label>
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          {instruments.map(id => (
+            <div key={id} className="space-y-1">
+              <span className="text-xs text-muted-foreground capitalize">{id}</span>
+              <Select
+                value={groove.instrumentSwing[id] === undefined ? 'global' : String(groove.instrumentSwing[id])}
+                onValueChange={(val) => setInstrumentSwing(id, val)}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSTRUMENT_SWING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GrooveControls;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { HarmonicRhythmSettings } from "@/hooks/audio/types";
+import { HARMONIC_RHYTHMS } from "@/lib/music/progressions";
+import { getMoodProfile } from "@/lib/music/moods";
+
+interface HarmonicRhythmControlsProps {
+  harmonicRhythm: HarmonicRhythmSettings;
+  setHarmonicRhythm: (harmonicRhythm: HarmonicRhythmSettings) => void;
+  mood: string;
+  edited: boolean; // An edited progression sets its own chord lengths
+}
+
+const MOOD_VALUE = 'mood';
+
+const rhythmLabel = (chordsPerBar: number) =>
+  chordsPerBar >= 1
+    ? `${chordsPerBar === 1 ? 'One chord' : `${chordsPerBar} chords`} per bar`
+    : `One chord per ${1 / chordsPerBar} bars`;
+
+const HarmonicRhythmControls: React.FC<HarmonicRhythmControlsProps> = ({ harmonicRhythm, setHarmonicRhythm, mood, edited }) => {
+  const moodRhythm = getMoodProfile(mood).harmonicRhythm;
+
+  return (
+    <div className="p-4 bg-studio-panel rounded-lg border border-white/5">
+      <h3 className="text-lg font-semibold mb-4">Harmonic Rhythm</h3>
+      <div className="grid grid-cols-2 gap-4 items-center">
+        <Select
+          value={harmonicRhythm.chordsPerBar === null ? MOOD_VALUE : String(harmonicRhythm.chordsPerBar)}
+          onValueChange={(val) => setHarmonicRhythm({
+            ...harmonicRhythm,
+            chordsPerBar: val === MOOD_VALUE ? null : Number(val),
+          })}
+          disabled={edited}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Chords per bar" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MOOD_VALUE}>Mood ({rhythmLabel(moodRhythm).toLowerCase()})</SelectItem>
+            {HARMONIC_RHYTHMS.map(chordsPerBar => (
+              <SelectItem key={chordsPerBar} value={String(chordsPerBar)}>{rhythmLabel(chordsPerBar)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="harmonic-push"
+            checked={harmonicRhythm.push}
+            onCheckedChange={(push) => setHarmonicRhythm({ ...harmonicRhythm, push })}
+          />
+          <label htmlFor="harmonic-push" className="text-sm leading-tight">
+            Push chord changes
+            <span className="block text-[10px] text-muted-foreground">An eighth note early</span>
+          </label>
+        </div>
+      </div>
+      {edited && (
+        <p className="mt-3 text-xs text-muted-foreground">
+          The edited progression sets how long each chord lasts; pushes still apply.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default HarmonicRhythmControls;
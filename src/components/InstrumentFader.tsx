@@ -1,14 +1,22 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Lock, RefreshCw, Unlock } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
+import type { InstrumentSource } from "@/hooks/audio/types";
 
 interface InstrumentFaderProps {
   name: string;
   value: number; // dB value
   onChange: (value: number) => void;
+  source?: InstrumentSource; // Only shown when the instrument can play a generated pattern
+  onSourceChange?: (source: InstrumentSource) => void;
+  locked?: boolean;
+  onLockChange?: () => void; // Only shown once there is a generated part to lock
+  onRegenerate?: () => void; // Re-rolls just this instrument
+  loading?: boolean;
 }
 
-const InstrumentFader: React.FC<InstrumentFaderProps> = ({ name, value, onChange }) => {
+const InstrumentFader: React.FC<InstrumentFaderProps> = ({ name, value, onChange, source, onSourceChange, locked, onLockChange, onRegenerate, loading }) => {
   // Keep a local state for UI updates
   const [localValue, setLocalValue] = useState<number>(value);
   
@@ -65,6 +73,41 @@ const InstrumentFader: React.FC<InstrumentFaderProps> = ({ name, value, onChange
         </div>
         <div className="text-xs font-mono mt-1">{formatDb(localValue)}</div>
       </div>
+      {source && onSourceChange && (
+        <button
+          type="button"
+          className="mt-2 text-[10px] uppercase tracking-wide px-2 py-0.5 rounded border border-studio-accent/40 text-muted-foreground hover:text-white"
+          title="Switch between the sample loop and the generated pattern (applies on next Generate)"
+          onClick={() => onSourceChange(source === 'pattern' ? 'loop' : 'pattern')}
+        >
+          {source === 'pattern' ? 'Pattern' : 'Loop'}
+        </button>
+      )}
+      {onLockChange && (
+        <button
+          type="button"
+          className={`mt-1 flex items-center gap-1 text-[10px] uppercase tracking-wide px-2 py-0.5 rounded border ${
+            locked ? 'border-amber-500/60 text-amber-300' : 'border-studio-accent/40 text-muted-foreground hover:text-white'
+          }`}
+          title={locked ? 'Unlock this part so it is regenerated' : 'Keep this part note for note when re-rolling'}
+          onClick={onLockChange}
+        >
+          {locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+          {locked ? 'Locked' : 'Lock'}
+        </button>
+      )}
+      {onRegenerate && (
+        <button
+          type="button"
+          className="mt-1 flex items-center gap-1 text-[10px] uppercase tracking-wide px-2 py-0.5 rounded border border-studio-accent/40 text-muted-foreground hover:text-white disabled:opacity-50 disabled:hover:text-muted-foreground"
+          title={locked ? 'Unlock this part to re-roll it' : 'Re-roll just this instrument while the others keep playing'}
+          disabled={locked || loading}
+          onClick={onRegenerate}
+        >
+          {loading ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Dices className="w-3 h-3" />}
+          Re-roll
+        </button>
+      )}
     </div>
   );
 };
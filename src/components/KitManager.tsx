@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSampleManager, InstrumentType, Kit, OneShot, OneShotZone } from '@/hooks/useSampleManager';
+import type { SampleKit } from '@/hooks/audio/types';
+import { findRootNote, rootNoteFromName } from '@/audio/rootNote';
+import { keyZones } from '@/audio/sampleKits';
+import { GM_DRUMS, type DrumVoice } from '@/lib/music/drums';
+import { midiToNoteName } from '@/lib/music/theory';
+import { FileAudio, Trash2, Upload, Play } from 'lucide-react';
+
+export interface KitManagerProps {
+  kitAssignments?: Partial<Record<InstrumentType, string | null>>; // Kit id each instrument plays with
+  onUseKit?: (instrument: InstrumentType, kit: SampleKit | null) => void;
+}
+
+const KIT_INSTRUMENTS: InstrumentType[] = ['drums', 'bass', 'guitar', 'keys'];
+const NO_ROOT = 'none';
+
+// "closedHat" -> "Closed hat"
+const drumLabel = (voice: string) => voice.replace(/([A-Z])/g, ' $1').toLowerCase().replace(/^./, c => c.toUpperCase());
+
+// The playable kit: one-shots without a root note are left out until one is entered
+const toSampleKit = (kit: Kit, getSampleUrl: (filePath: string) => string): SampleKit => ({
+  id: kit.id,
+  name: kit.name,
+  instrument: kit.instrument_type,
+  zones: kit.samples
+    .filter(sample => sample.root_note !== null)
+    .map(sample => ({ url: getSampleUrl(sample.file_path), root: sample.root_note!, velocity: sample.velocity_layer })),
+});
+
+// Range of notes a root plays in its velocity layer, like "A1–D2"
+const zoneLabel = (kit: Kit, sample: OneShot) => {
+  if (sample.root_note === null) return null;
+  const roots = kit.samples
+    .filter(other => other.velocity_layer === sample.velocity_layer && other.root_note !== null)
+    .map(other => other.root_note!);
+  const zone = keyZones(roots).find(z => z.root === sample.root_note);
+  return zone ? `${midiToNoteName(zone.low)}–${midiToNoteName(zone.high)}` : null;
+};
+
+// Root note and velocity layer of a one-shot; drums pick the drum the hit plays
+function OneShotFields({ zone, drums, onChange }: { zone: OneShotZone; drums: boolean; onChange: (zone: OneShotZone) => void }) {
+  const [root, setRoot] = useState(zone.root === null ? '' : midiToNoteName(zone.root));
+  const [velocity, setVelocity] = useState(zone.velocity.toString());
+
+  useEffect(() => setRoot(zone.root === null ? '' : midiToNoteName(zone.root)), [zone.root]);
+  useEffect(() => setVelocity(zone.velocity.toString()), [zone.velocity]);
+
+  // Commit on leaving a field; a root that isn't a note name clears it, a velocity is kept in range
+  const commitRoot = () => {
+    const next = root.trim() ? rootNoteFromName(root.trim(), 'keys') : null;
+    if (next !== zone.root) onChange({ ...zone, root: next });
+    else setRoot(zone.root === null ? '' : midiToNoteName(zone.root));
+  };
+  const commitVelocity = () => {
+    const next = Math.min(127, Math.max(1, Math.round(Number(velocity)) || 1));
+    setVelocity(next.toString());
+    if (next !== zone.velocity) onChange({ ...zone, velocity: next });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {drums ? (
+        <Select
+          value={zone.root === null ? NO_ROOT : String(zone.root)}
+          onValueChange={(val) => onChange({ ...zone, root: val === NO_ROOT ? null : Number(val) })}
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue placeholder="Drum" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ROOT}>Not set</SelectItem>
+            {(Object.keys(GM_DRUMS) as DrumVoice[]).map(voice => (
+              <SelectItem key={voice} value={String(GM_DRUMS[voice])}>{drumLabel(voice)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          value={root}
+          onChange={(e) => setRoot(e.target.value)}
+          onBlur={commitRoot}
+          placeholder="Root (C3)"
+          className="h-8 w-24"
+        />
+      )}
+      <Input
+        type="number"
+        min={1}
+        max={127}
+        value={velocity}
+        onChange={(e) => setVelocity(e.target.value)}
+        onBlur={commitVelocity}
+        title="Softest velocity this one-shot plays for (1-127)"
+        className="h-8 w-20"
+      />
+    </div>
+  );
+}
+
+// Multi-sample instruments built from one-shots: notes are spread across key zones from each
+// one-shot's root, louder notes switch to higher velocity layers, and one-shots on the same note
+// and layer take turns.
+export default function KitManager({ kitAssignments = {}, onUseKit }: KitManagerProps) {
+  const { toast } = useToast();
+  const { getKits, createKit, deleteKit, uploadOneShot, updateOneShot, deleteSample, getSampleUrl, isUploading } = useSampleManager();
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [name, setName] = useState('');
+  const [instrumentType, setInstrumentType] = useState<InstrumentType>('keys');
+
+  const showError = useCallback((description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  }, [toast]);
+
+  // Reload the kits, and hand instruments playing one of them its new one-shots
+  const loadKits = useCallback(async () => {
+    const result = await getKits();
+    if (!result.success) {
+      showError(result.error || "Failed to load kits");
+      return;
+    }
+    setKits(result.data);
+    result.data.forEach(kit => {
+      if (kitAssignments[kit.instrument_type] === kit.id) onUseKit?.(kit.instrument_type, toSampleKit(kit, getSampleUrl));
+    });
+  }, [getKits, showError, kitAssignments, onUseKit, getSampleUrl]);
+
+  // Load the kits when the tab opens; later loads follow edits
+  useEffect(() => {
+    getKits().then(result => {
+      if (result.success) setKits(result.data);
+      else showError(result.error || "Failed to load kits");
+    });
+  }, [getKits, showError]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    const result = await createKit(name.trim(), instrumentType);
+    if (result.success) {
+      setName('');
+      await loadKits();
+    } else {
+      showError(result.error || "Failed to create kit");
+    }
+  };
+
+  const handleDeleteKit = async (kit: Kit) => {
+    const result = await deleteKit(kit);
+    if (result.success) {
+      if (kitAssignments[kit.instrument_type] === kit.id) onUseKit?.(kit.instrument_type, null);
+      toast({ title: "Success", description: `Deleted ${kit.name}` });
+      await loadKits();
+    } else {
+      showError(result.error || "Failed to delete kit");
+    }
+  };
+
+  // Upload one-shots with the root note read from their names, or detected from their audio
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>, kit: Kit) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    let unknownRoots = 0;
+    for (const file of files) {
+      const root = await findRootNote(file, kit.instrument_type);
+      if (root === null) unknownRoots++;
+      const result = await uploadOneShot(file, kit, { root, velocity: 1 });
+      if (!result.success) {
+        showError(result.error || `Failed to upload ${file.name}`);
+        break;
+      }
+    }
+    if (unknownRoots > 0) {
+      toast({
+        title: "Root notes needed",
+        description: `Couldn't tell the root note of ${unknownRoots} one-shot${unknownRoots === 1 ? '' : 's'}; enter it to play them.`,
+      });
+    }
+    await loadKits();
+  };
+
+  const handleZone = async (sample: OneShot, zone: OneShotZone) => {
+    const result = await updateOneShot(sample.id, zone);
+    if (result.success) await loadKits();
+    else showError(result.error || "Failed to update one-shot");
+  };
+
+  const handleDeleteOneShot = async (sample: OneShot) => {
+    const result = await deleteSample(sample.id, sample.file_path);
+    if (result.success) await loadKits();
+    else showError(result.error || "Failed to delete one-shot");
+  };
+
+  const handlePlay = (sample: OneShot) => {
+    new Audio(getSampleUrl(sample.file_path)).play().catch(error => {
+      console.error("Error playing one-shot:", error);
+      showError("Could not play the one-shot");
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Kit name"
+          className="h-9"
+        />
+        <Select value={instrumentType} onValueChange={(val) => setInstrumentType(val as InstrumentType)}>
+          <SelectTrigger className="h-9 w-28 capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KIT_INSTRUMENTS.map(type => (
+              <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" onClick={handleCreate} disabled={!name.trim()}>
+          New kit
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Name one-shots after their root note (Piano_C3.wav) or drum (kick.wav), or enter it below. Pitched
+        one-shots without a note in their name are detected from their audio.
+      </p>
+
+      <div className="space-y-4 max-h-[460px] overflow-y-auto pr-2">
+        {kits.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No kits yet
+          </div>
+        ) : (
+          kits.map(kit => {
+            const drums = kit.instrument_type === 'drums';
+            const playable = kit.samples.some(sample => sample.root_note !== null);
+            return (
+              <div key={kit.id} className="p-4 bg-secondary/10 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{kit.name}</p>
+                    <p className="text-sm text-muted-foreground capitalize">
+                      {kit.instrument_type} · {kit.samples.length} one-shots
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {onUseKit && (
+                      <label className="flex items-center gap-2 text-xs">
+                        <Switch
+                          checked={kitAssignments[kit.instrument_type] === kit.id}
+                          disabled={!playable}
+                          onCheckedChange={(checked) => onUseKit(kit.instrument_type, checked ? toSampleKit(kit, getSampleUrl) : null)}
+                        />
+                        Use for {kit.instrument_type}
+                      </label>
+                    )}
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      multiple
+                      className="hidden"
+                      id={`upload-kit-${kit.id}`}
+                      onChange={(e) => handleUpload(e, kit)}
+                      disabled={isUploading}
+                    />
+                    <Button type="button" variant="ghost" size="icon" asChild title="Add one-shots">
+                      <label htmlFor={`upload-kit-${kit.id}`} className="cursor-pointer">
+                        <Upload className="w-4 h-4" />
+                      </label>
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => handleDeleteKit(kit)} title="Delete kit">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {kit.samples.map(sample => (
+                  <div key={sample.id} className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileAudio className="w-4 h-4 shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{sample.name}</p>
+                        {!drums && (
+                          <p className="text-[10px] text-muted-foreground">
+                            {zoneLabel(kit, sample) ?? 'No root note'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <OneShotFields
+                        zone={{ root: sample.root_note, velocity: sample.velocity_layer }}
+                        drums={drums}
+                        onChange={(zone) => handleZone(sample, zone)}
+                      />
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handlePlay(sample)}>
+                        <Play className="w-4 h-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handleDeleteOneShot(sample)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
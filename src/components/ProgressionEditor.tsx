@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Plus, RotateCcw, Trash2, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ProgressionChord } from "@/hooks/audio/types";
+import type { Arrangement } from "@/lib/music/types";
+import { chordAt, getSectionAtBar } from "@/lib/music/arrangement";
+import { progressionBars, progressionFromArrangement } from "@/lib/music/progressions";
+import { parseChordSymbol } from "@/lib/music/theory";
+
+interface ProgressionEditorProps {
+  arrangement: Arrangement; // Built from the current settings, so it already includes the edits
+  progression: ProgressionChord[] | null;
+  setProgression: (progression: ProgressionChord[] | null) => void;
+}
+
+// Chord lengths offered, in bars
+const CHORD_LENGTHS = [0.5, 1, 2, 3, 4];
+
+const lengthLabel = (bars: number) => (bars === 0.5 ? '½ bar' : `${bars} bar${bars === 1 ? '' : 's'}`);
+
+interface ChordInputProps {
+  symbol: string;
+  isValid: (symbol: string) => boolean;
+  onCommit: (symbol: string) => void;
+}
+
+// Text field that only hands on symbols it can read as a chord
+const ChordInput: React.FC<ChordInputProps> = ({ symbol, isValid, onCommit }) => {
+  const [draft, setDraft] = useState(symbol);
+  useEffect(() => setDraft(symbol), [symbol]);
+
+  const valid = isValid(draft);
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (valid && trimmed !== symbol) onCommit(trimmed);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(symbol);
+      }}
+      className={`h-8 font-mono text-sm ${valid ? '' : 'border-red-500 focus-visible:ring-red-500'}`}
+      title={valid ? 'Chord name (F#m7) or Roman numeral (V7)' : 'Not a chord this editor can read'}
+    />
+  );
+};
+
+const ProgressionEditor: React.FC<ProgressionEditorProps> = ({ arrangement, progression, setProgression }) => {
+  // Until the first edit the editor shows the generated chords
+  const chords = progression ?? progressionFromArrangement(arrangement);
+
+  const update = (index: number, changes: Partial<ProgressionChord>) =>
+    setProgression(chords.map((chord, i) => (i === index ? { ...chord, ...changes } : chord)));
+  const addBar = (index: number) =>
+    setProgression([...chords.slice(0, index + 1), { symbol: chords[index].symbol, bars: 1 }, ...chords.slice(index + 1)]);
+  const remove = (index: number) => setProgression(chords.filter((_, i) => i !== index));
+
+  let startBar = 0;
+  return (
+    <div className="bg-[#232436] rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold">Chord Progression</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">{Math.ceil(progressionBars(chords) - 1e-6)} bars</span>
+          {progression && (
+            <Button variant="outline" size="sm" onClick={() => setProgression(null)} title="Go back to the generated chords">
+              <RotateCcw className="w-3 h-3 mr-1" /> Reset
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {chords.map((entry, index) => {
+          const bar = startBar;
+          startBar += entry.bars;
+          // Chords are resolved in the key of the section they start in
+          const section = getSectionAtBar(arrangement, Math.floor(bar + 1e-6)) ?? arrangement.sections[arrangement.sections.length - 1];
+          const resolved = chordAt(section, bar * arrangement.beatsPerBar).chord;
+          const lengths = CHORD_LENGTHS.includes(entry.bars) ? CHORD_LENGTHS : [...CHORD_LENGTHS, entry.bars].sort((a, b) => a - b);
+
+          return (
+            <div key={index} className={`w-44 rounded border bg-studio-panel p-2 space-y-1 ${entry.locked ? 'border-amber-500/60' : 'border-white/10'}`}>
+              <div className="flex items-baseline justify-between text-[10px] text-muted-foreground">
+                <span>Bar {Math.floor(bar) + 1}{bar % 1 !== 0 && '½'}</span>
+                <span className="font-mono">{resolved.name} · {resolved.numeral}</span>
+              </div>
+              <ChordInput
+                symbol={entry.symbol}
+                isValid={(symbol) => parseChordSymbol(symbol, section.key, section.mode) !== null}
+                onCommit={(symbol) => update(index, { symbol })}
+              />
+              <div className="flex items-center gap-1">
+                <Select value={entry.bars.toString()} onValueChange={(val) => update(index, { bars: Number(val) })}>
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue placeholder="Length" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lengths.map(bars => (
+                      <SelectItem key={bars} value={bars.toString()}>{lengthLabel(bars)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-7 w-7 shrink-0 ${entry.locked ? 'text-amber-300' : ''}`}
+                  onClick={() => update(index, { locked: !entry.locked })}
+                  title={entry.locked ? 'Unlock this chord' : 'Keep this chord when re-rolling'}
+                >
+                  {entry.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => addBar(index)} title="Add a bar after this chord">
+                  <Plus className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => remove(index)}
+                  disabled={chords.length === 1}
+                  title="Remove this chord"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Type a chord name (F#m7) or a Roman numeral (V7, bVII); numerals follow the key changes. Edits apply on the next generation,
+        with any reharmonization played on top, and locked chords stay put when re-rolling.
+      </p>
+    </div>
+  );
+};
+
+export default ProgressionEditor;
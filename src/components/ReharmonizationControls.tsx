@@ -0,0 +1,48 @@
+import React from 'react';
+import { Switch } from "@/components/ui/switch";
+import type { ReharmonizationSettings } from "@/hooks/audio/types";
+import { getMoodProfile } from "@/lib/music/moods";
+
+interface ReharmonizationControlsProps {
+  reharmonization: ReharmonizationSettings;
+  setReharmonization: (reharmonization: ReharmonizationSettings) => void;
+  mood: string;
+}
+
+const TECHNIQUES: { id: keyof ReharmonizationSettings; label: string; hint: string }[] = [
+  { id: 'secondaryDominants', label: 'Secondary dominants', hint: 'A7 before Dm' },
+  { id: 'iiV', label: 'ii–V approach', hint: 'Em7 A7 into Dm' },
+  { id: 'tritoneSubstitution', label: 'Tritone substitution', hint: 'Db7 for G7' },
+  { id: 'borrowedChords', label: 'Borrowed chords', hint: 'Fm or Ab in C major' },
+  { id: 'extensions', label: 'Extended voicings', hint: '9ths, 11ths, 13ths' },
+];
+
+const ReharmonizationControls: React.FC<ReharmonizationControlsProps> = ({ reharmonization, setReharmonization, mood }) => {
+  const tension = getMoodProfile(mood).tension;
+
+  return (
+    <div className="p-4 bg-studio-panel rounded-lg border border-white/5">
+      <h3 className="text-lg font-semibold mb-4">Reharmonization</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {TECHNIQUES.map(({ id, label, hint }) => (
+          <div key={id} className="flex items-center space-x-2">
+            <Switch
+              id={`reharm-${id}`}
+              checked={reharmonization[id]}
+              onCheckedChange={(checked) => setReharmonization({ ...reharmonization, [id]: checked })}
+            />
+            <label htmlFor={`reharm-${id}`} className="text-sm leading-tight">
+              {label}
+              <span className="block text-[10px] text-muted-foreground">{hint}</span>
+            </label>
+          </div>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-muted-foreground">
+        The {mood} mood sets the tension to {Math.round(tension * 100)}%: the higher it is, the more chords are reharmonized.
+      </p>
+    </div>
+  );
+};
+
+export default ReharmonizationControls;
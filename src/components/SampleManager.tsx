@@ -3,12 +3,64 @@ import { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
-import { useSampleManager, InstrumentType } from '@/hooks/useSampleManager';
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import KitManager, { type KitManagerProps } from "@/components/KitManager";
+import { useSampleManager, InstrumentType, SampleTags } from '@/hooks/useSampleManager';
+import { SAMPLE_KEYS } from '@/audio/sampleTuning';
 import { FileAudio, Trash2, Upload, Play } from 'lucide-react';
 
-export default function SampleManager() {
+const NO_KEY = 'none';
+
+// Tempo and key a sample was recorded in, so playback can fit it to the track
+function SampleTagFields({ tags, onChange }: { tags: SampleTags; onChange: (tags: SampleTags) => void }) {
+  const [bpm, setBpm] = useState(tags.bpm?.toString() ?? '');
+
+  useEffect(() => setBpm(tags.bpm?.toString() ?? ''), [tags.bpm]);
+
+  // Commit the tempo when the field is left; anything that isn't a tempo clears it
+  const commitBpm = () => {
+    const value = Number(bpm);
+    const next = bpm.trim() && value > 0 ? value : null;
+    if (next !== tags.bpm) onChange({ ...tags, bpm: next });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={1}
+        value={bpm}
+        onChange={(e) => setBpm(e.target.value)}
+        onBlur={commitBpm}
+        placeholder="BPM"
+        className="h-8 w-20"
+      />
+      <Select
+        value={tags.key ?? NO_KEY}
+        onValueChange={(val) => onChange({ ...tags, key: val === NO_KEY ? null : val })}
+      >
+        <SelectTrigger className="h-8 w-28">
+          <SelectValue placeholder="Key" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_KEY}>No key</SelectItem>
+          {SAMPLE_KEYS.map(key => (
+            <SelectItem key={key} value={key}>{key}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Loops are played whole, stretched to the track; kits (the Instruments tab) play generated parts
+// with one-shots
+export default function SampleManager({ kitAssignments, onUseKit }: KitManagerProps) {
   const { toast } = useToast();
-  const { uploadSample, deleteSample, getSamples, getSampleUrl, isUploading } = useSampleManager();
+  const { uploadSample, tagSample, deleteSample, getSamples, getSampleUrl, isUploading } = useSampleManager();
+  const [uploadTags, setUploadTags] = useState<SampleTags>({ bpm: null, key: null });
   const [samples, setSamples] = useState<any[]>([]);
   const [audioPlayer, setAudioPlayer] = useState<HTMLAudioElement | null>(null);
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
@@ -44,7 +96,7 @@ export default function SampleManager() {
     if (!file) return;
 
     try {
-      const result = await uploadSample(file, instrumentType);
+      const result = await uploadSample(file, instrumentType, uploadTags);
       if (result.success) {
         toast({ title: "Success", description: "Sample uploaded successfully" });
         await loadSamples();
@@ -65,6 +117,19 @@ export default function SampleManager() {
     }
   };
 
+  const handleTag = async (id: string, tags: SampleTags) => {
+    const result = await tagSample(id, tags);
+    if (result.success) {
+      setSamples(prev => prev.map(sample => sample.id === id ? { ...sample, ...tags } : sample));
+    } else {
+      toast({ 
+        title: "Error", 
+        description: result.error || "Failed to update sample",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleDelete = async (id: string, filePath: string) => {
     // Stop playing if this is the current sample
     if (currentlyPlaying === id && audioPlayer) {
@@ -122,73 +187,98 @@ export default function SampleManager() {
           <SheetTitle>Sample Manager</SheetTitle>
         </SheetHeader>
         
-        <div className="mt-6 space-y-6">
-          <div className="grid grid-cols-2 gap-4">
-            {(['drums', 'bass', 'guitar', 'keys'] as InstrumentType[]).map((type) => (
-              <div key={type} className="space-y-2">
-                <h3 className="text-lg font-semibold capitalize">{type}</h3>
-                <div className="relative">
-                  <input
-                    type="file"
-                    accept="audio/*"
-                    className="hidden"
-                    id={`upload-${type}`}
-                    onChange={(e) => handleFileUpload(e, type)}
-                    disabled={isUploading}
-                  />
-                  <label
-                    htmlFor={`upload-${type}`}
-                    className="flex items-center justify-center w-full p-4 border-2 border-dashed rounded-lg hover:border-primary/50 transition-colors cursor-pointer"
-                  >
-                    <Upload className="w-6 h-6" />
-                  </label>
-                </div>
-              </div>
-            ))}
-          </div>
-
-          <div className="space-y-4 max-h-[400px] overflow-y-auto pr-2">
-            {samples.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No samples uploaded yet
-              </div>
-            ) : (
-              samples.map((sample) => (
-                <div
-                  key={sample.id}
-                  className="flex items-center justify-between p-4 bg-secondary/10 rounded-lg"
-                >
-                  <div className="flex items-center space-x-4">
-                    <FileAudio className="w-5 h-5" />
-                    <div>
-                      <p className="font-medium">{sample.name}</p>
-                      <p className="text-sm text-muted-foreground capitalize">
-                        {sample.instrument_type}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handlePlaySample(sample.id, sample.file_path)}
-                      className="mr-1"
-                    >
-                      <Play className={`w-4 h-4 ${currentlyPlaying === sample.id ? 'text-green-500' : ''}`} />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDelete(sample.id, sample.file_path)}
+        <Tabs defaultValue="loops" className="mt-6">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="loops">Loops</TabsTrigger>
+            <TabsTrigger value="instruments">Instruments</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="loops" className="mt-6 space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm">Recorded at</p>
+              <SampleTagFields tags={uploadTags} onChange={setUploadTags} />
+              <p className="text-xs text-muted-foreground">
+                Samples are stretched to the track's tempo and shifted to its key. Leave the key out for drums.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {(['drums', 'bass', 'guitar', 'keys'] as InstrumentType[]).map((type) => (
+                <div key={type} className="space-y-2">
+                  <h3 className="text-lg font-semibold capitalize">{type}</h3>
+                  <div className="relative">
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      id={`upload-${type}`}
+                      onChange={(e) => handleFileUpload(e, type)}
+                      disabled={isUploading}
+                    />
+                    <label
+                      htmlFor={`upload-${type}`}
+                      className="flex items-center justify-center w-full p-4 border-2 border-dashed rounded-lg hover:border-primary/50 transition-colors cursor-pointer"
                     >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                      <Upload className="w-6 h-6" />
+                    </label>
                   </div>
                 </div>
-              ))
-            )}
-          </div>
-        </div>
+              ))}
+            </div>
+
+            <div className="space-y-4 max-h-[400px] overflow-y-auto pr-2">
+              {samples.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No samples uploaded yet
+                </div>
+              ) : (
+                samples.map((sample) => (
+                  <div
+                    key={sample.id}
+                    className="flex items-center justify-between p-4 bg-secondary/10 rounded-lg"
+                  >
+                    <div className="flex items-center space-x-4">
+                      <FileAudio className="w-5 h-5" />
+                      <div>
+                        <p className="font-medium">{sample.name}</p>
+                        <p className="text-sm text-muted-foreground capitalize">
+                          {sample.instrument_type}
+                        </p>
+                        <div className="mt-2">
+                          <SampleTagFields
+                            tags={{ bpm: sample.bpm, key: sample.key }}
+                            onChange={(tags) => handleTag(sample.id, tags)}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handlePlaySample(sample.id, sample.file_path)}
+                        className="mr-1"
+                      >
+                        <Play className={`w-4 h-4 ${currentlyPlaying === sample.id ? 'text-green-500' : ''}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(sample.id, sample.file_path)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="instruments" className="mt-6">
+            <KitManager kitAssignments={kitAssignments} onUseKit={onUseKit} />
+          </TabsContent>
+        </Tabs>
       </SheetContent>
     </Sheet>
   );
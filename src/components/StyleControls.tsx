@@ -0,0 +1,80 @@
+import React from 'react';
+import { Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ChordStyle } from "@/hooks/audio/types";
+import type { PersonalStyle } from "@/lib/music/personalStyle";
+
+interface StyleControlsProps {
+  chordStyle: ChordStyle;
+  setChordStyle: (chordStyle: ChordStyle) => void;
+  genreName: string;
+  profile: PersonalStyle;
+  onImportMidi: (file: File) => void;
+  onRemoveFile: (name: string) => void;
+}
+
+const StyleControls: React.FC<StyleControlsProps> = ({ chordStyle, setChordStyle, genreName, profile, onImportMidi, onRemoveFile }) => {
+  const phraseCount = profile.files.reduce((sum, file) => sum + file.phrases.length, 0);
+
+  return (
+    <div className="p-4 bg-studio-panel rounded-lg border border-white/5">
+      <h3 className="text-lg font-semibold mb-4">Chord Style</h3>
+      <div className="flex gap-2">
+        <Select value={chordStyle} onValueChange={(val) => setChordStyle(val as ChordStyle)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Chord style" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="genre">{genreName} corpus</SelectItem>
+            <SelectItem value="personal" disabled={!profile.model}>
+              My style ({phraseCount} phrases)
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <input
+          type="file"
+          accept="audio/midi,audio/x-midi,.mid,.midi"
+          className="hidden"
+          id="import-style-midi"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportMidi(file);
+            e.target.value = '';
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" asChild title="Learn chords from a MIDI file">
+          <label htmlFor="import-style-midi" className="cursor-pointer">
+            <Upload className="w-4 h-4" />
+          </label>
+        </Button>
+      </div>
+
+      {profile.files.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {profile.files.map(file => (
+            <li key={file.name} className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="truncate">{file.name} · {file.phrases.length} phrases</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => onRemoveFile(file.name)}
+                title="Forget this file"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Chords are written by a model trained on example progressions. Import MIDI files to train your own style.
+      </p>
+    </div>
+  );
+};
+
+export default StyleControls;
@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TempoEnding, TempoSettings, TempoTransition } from "@/hooks/audio/types";
+import type { SectionName } from "@/lib/music/types";
+import { TEMPO_ENDINGS, TEMPO_TRANSITIONS } from "@/lib/music/tempo";
+
+interface TempoControlsProps {
+  tempo: TempoSettings;
+  setTempo: (tempo: TempoSettings) => void;
+  bpm: number;
+}
+
+const SECTIONS: SectionName[] = ['intro', 'verse', 'chorus', 'bridge', 'outro'];
+
+// Largest tempo change per section, in BPM either way
+const MAX_OFFSET = 30;
+
+const TempoControls: React.FC<TempoControlsProps> = ({ tempo, setTempo, bpm }) => {
+  const update = (changes: Partial<TempoSettings>) => setTempo({ ...tempo, ...changes });
+
+  const setSectionOffset = (section: SectionName, offset: number) => {
+    const sectionOffsets = { ...tempo.sectionOffsets };
+    if (offset === 0) {
+      delete sectionOffsets[section];
+    } else {
+      sectionOffsets[section] = offset;
+    }
+    update({ sectionOffsets });
+  };
+
+  return (
+    <div className="p-4 bg-studio-panel rounded-lg border border-white/5">
+      <h3 className="text-lg font-semibold mb-4">Tempo</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm">Between sections</label>
+          <Select value={tempo.transition} onValueChange={(val) => update({ transition: val as TempoTransition })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Transition" />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPO_TRANSITIONS.map(transition => (
+                <SelectItem key={transition} value={transition}>{transition === 'ramp' ? 'Gradual ramp' : 'Jump'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm">Ending</label>
+          <Select value={tempo.ending} onValueChange={(val) => update({ ending: val as TempoEnding })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Ending" />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMPO_ENDINGS.map(ending => (
+                <SelectItem key={ending} value={ending}>{ending}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        {SECTIONS.map(section => {
+          const offset = tempo.sectionOffsets[section] ?? 0;
+          return (
+            <div key={section} className="space-y-1">
+              <label className="text-xs flex justify-between">
+                <span className="capitalize">{section}</span>
+                <span className="font-mono text-muted-foreground">
+                  {bpm + offset} BPM{offset !== 0 && ` (${offset > 0 ? '+' : ''}${offset})`}
+                </span>
+              </label>
+              <Slider
+                value={[offset]}
+                min={-MAX_OFFSET}
+                max={MAX_OFFSET}
+                step={1}
+                onValueChange={([value]) => setSectionOffset(section, value)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TempoControls;
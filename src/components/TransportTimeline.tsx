@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { LoopRegion } from "@/hooks/audio/types";
+import type { Arrangement } from "@/lib/music/types";
+import { getSectionAtBar } from "@/lib/music/arrangement";
+import { formatPosition, getMeter } from "@/lib/music/meter";
+
+interface TransportTimelineProps {
+  arrangement: Arrangement;
+  position: number; // Quarter notes
+  loopRegion: LoopRegion | null;
+  onSeek: (time: number) => void;
+  onLoopRegionChange: (region: LoopRegion | null) => void;
+}
+
+// Bar number labels along the timeline, at most this many
+const MAX_BAR_LABELS = 16;
+
+// A bar number typed in one-based, committed when the field is left
+function BarField({ bar, onChange, label }: { bar: number; onChange: (bar: number) => void; label: string }) {
+  const [value, setValue] = useState(String(bar + 1));
+
+  useEffect(() => setValue(String(bar + 1)), [bar]);
+
+  const commit = () => {
+    const next = Math.round(Number(value)) - 1;
+    if (Number.isFinite(next) && next !== bar) onChange(next);
+    else setValue(String(bar + 1));
+  };
+
+  return (
+    <Input
+      type="number"
+      min={1}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      aria-label={label}
+      className="h-8 w-16"
+    />
+  );
+}
+
+const TransportTimeline: React.FC<TransportTimelineProps> = ({ arrangement, position, loopRegion, onSeek, onLoopRegionChange }) => {
+  const meter = getMeter(arrangement.timeSignature);
+  const totalQuarters = arrangement.totalBars * arrangement.beatsPerBar;
+  const percent = (quarters: number) => `${(quarters / totalQuarters) * 100}%`;
+  const barPercent = (bar: number) => percent(bar * arrangement.beatsPerBar);
+  const labelEvery = Math.ceil(arrangement.totalBars / MAX_BAR_LABELS);
+  const currentBar = Math.min(Math.floor(position / arrangement.beatsPerBar), arrangement.totalBars - 1);
+
+  // Seek to the beat under the pointer
+  const seekTo = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const beat = 4 / meter.denominator;
+    const time = ((event.clientX - rect.left) / rect.width) * totalQuarters;
+    onSeek(Math.floor(time / beat) * beat);
+  };
+
+  // Arrow keys step a bar at a time
+  const seekByKey = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.key === 'ArrowRight' ? 1 : event.key === 'ArrowLeft' ? -1 : 0;
+    if (!step) return;
+    event.preventDefault();
+    onSeek(Math.max(0, currentBar + step) * arrangement.beatsPerBar);
+  };
+
+  // Looping starts with the section under the playhead
+  const toggleLoop = (checked: boolean) => {
+    if (!checked) {
+      onLoopRegionChange(null);
+      return;
+    }
+    const section = getSectionAtBar(arrangement, currentBar) ?? arrangement.sections[0];
+    onLoopRegionChange({ startBar: section.startBar, endBar: section.startBar + section.bars });
+  };
+
+  return (
+    <div className="bg-[#232436] rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-3">
+        <div className="flex items-baseline gap-3">
+          <span className="font-mono text-2xl tabular-nums" title="Bars:beats:sixteenths">
+            {formatPosition(meter, position)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {meter.signature} · bar {currentBar + 1} of {arrangement.totalBars}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Switch id="loop-region" checked={loopRegion !== null} onCheckedChange={toggleLoop} />
+          <label htmlFor="loop-region">Loop bars</label>
+          {loopRegion && (
+            <>
+              <BarField
+                bar={loopRegion.startBar}
+                label="First bar of the loop"
+                onChange={(startBar) => onLoopRegionChange({ startBar, endBar: Math.max(loopRegion.endBar, startBar + 1) })}
+              />
+              <span className="text-muted-foreground">to</span>
+              <BarField
+                bar={loopRegion.endBar - 1}
+                label="Last bar of the loop"
+                onChange={(lastBar) => onLoopRegionChange({ ...loopRegion, endBar: lastBar + 1 })}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Playhead"
+        aria-valuemin={1}
+        aria-valuemax={arrangement.totalBars}
+        aria-valuenow={currentBar + 1}
+        aria-valuetext={formatPosition(meter, position)}
+        className="relative h-12 rounded bg-studio-panel border border-white/5 cursor-pointer overflow-hidden select-none"
+        onClick={seekTo}
+        onKeyDown={seekByKey}
+      >
+        {loopRegion && (
+          <div
+            className="absolute inset-y-0 bg-amber-500/15 border-x border-amber-500/60"
+            style={{ left: barPercent(loopRegion.startBar), width: barPercent(loopRegion.endBar - loopRegion.startBar) }}
+          />
+        )}
+
+        {arrangement.sections.map(section => (
+          <div
+            key={`${section.label}-${section.startBar}`}
+            className="absolute inset-y-0 border-l border-white/20 pl-1 pt-0.5 text-[10px] text-muted-foreground truncate"
+            style={{ left: barPercent(section.startBar), width: barPercent(section.bars) }}
+          >
+            {section.label}
+          </div>
+        ))}
+
+        {Array.from({ length: arrangement.totalBars }, (_, bar) => bar)
+          .filter(bar => bar % labelEvery === 0)
+          .map(bar => (
+            <span
+              key={bar}
+              className="absolute bottom-0.5 pl-1 text-[10px] text-muted-foreground/60"
+              style={{ left: barPercent(bar) }}
+            >
+              {bar + 1}
+            </span>
+          ))}
+
+        <div
+          className="absolute inset-y-0 w-0.5 bg-white shadow-[0_0_4px_rgba(255,255,255,0.8)]"
+          style={{ left: percent(Math.min(position, totalQuarters)) }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TransportTimeline;
@@ -1,14 +1,124 @@
 
 import * as Tone from 'tone';
+import type { Mode } from '@/lib/music/theory';
+import type { TimeSignature } from '@/lib/music/meter';
+import type { NoteEvent, SectionName } from '@/lib/music/types';
+import type { PatternVoice } from '@/audio/voices';
+import type { EffectSends } from '@/audio/effects';
 
-export type InstrumentType = 'drums' | 'bass' | 'guitar' | 'keys';
+export type InstrumentType = 'drums' | 'bass' | 'guitar' | 'keys' | 'melody';
+
+// 'loop' plays an audio sample on repeat, 'pattern' synthesizes the generated part
+export type InstrumentSource = 'loop' | 'pattern';
+
+export type SwingSubdivision = '8n' | '16n';
+
+export type AccentCurve = 'flat' | 'downbeat' | 'backbeat' | 'offbeat';
+
+export interface GrooveSettings {
+  swing: number; // 0 straight to 1 full triplet feel
+  swingSubdivision: SwingSubdivision;
+  instrumentSwing: Partial<Record<InstrumentType, number>>; // Overrides the global swing
+  timingJitter: number; // Maximum random timing offset in milliseconds
+  velocityVariation: number; // 0 to 1, random velocity spread
+  accent: AccentCurve;
+}
+
+// How the tempo moves into a section with a different tempo
+export type TempoTransition = 'step' | 'ramp';
+
+// How the track slows down at the end: not at all, gradually, or into a held final bar
+export type TempoEnding = 'none' | 'ritardando' | 'fermata';
+
+export interface TempoSettings {
+  sectionOffsets: Partial<Record<SectionName, number>>; // BPM added to the track tempo per section kind
+  transition: TempoTransition;
+  ending: TempoEnding;
+}
+
+// Key the bridge moves to: the track's key, its relative major/minor, or the key a fourth up
+export type BridgeKey = 'home' | 'relative' | 'subdominant';
+
+// Where generated chords come from: the genre's corpus or the user's imported MIDI
+export type ChordStyle = 'genre' | 'personal';
+
+// Reharmonization techniques applied on top of the progression; the mood's tension sets how often
+export interface ReharmonizationSettings {
+  secondaryDominants: boolean; // V7 of the next chord in place of the current one
+  iiV: boolean;                // ii-V of the next chord in the second half of the current one
+  tritoneSubstitution: boolean; // Dominants replaced by the dominant a tritone away
+  borrowedChords: boolean;     // Chords taken from the parallel major or minor
+  extensions: boolean;         // 9ths, 11ths and 13ths
+}
+
+// How often the chords change: chords per bar (2, 1, or 0.5 for a chord every two bars), or null
+// to follow the mood. Pushed chords arrive an eighth note ahead of the bar line.
+export interface HarmonicRhythmSettings {
+  chordsPerBar: number | null;
+  push: boolean;
+}
+
+export interface ModulationSettings {
+  bridge: BridgeKey;
+  finalLift: number; // Semitones the last chorus (and everything after it) moves up
+}
+
+// A chord of an edited progression: a chord name ("F#m7") or a Roman numeral ("V7"),
+// held for a number of bars. Numerals follow the key of the section they fall in.
+export interface ProgressionChord {
+  symbol: string;
+  bars: number;
+  locked?: boolean; // Kept when the rest of the progression is re-rolled
+}
+
+// Parts pinned by the user, kept note for note when the rest of the track is re-rolled
+export interface TrackLocks {
+  parts: Partial<Record<InstrumentType, NoteEvent[]>>;
+}
 
 export interface TrackSettings {
   genre: string;
   mood: string;
   bpm: number;
   key: string;
+  mode: Mode;
+  timeSignature: TimeSignature;
   duration: number;
+  seed: number; // Drives every random choice so a track can be reproduced
+  melody: boolean; // Adds a generated lead line on top of the rhythm section
+  groove: GrooveSettings;
+  tempo: TempoSettings;
+  modulation: ModulationSettings;
+  chordStyle: ChordStyle;
+  reharmonization: ReharmonizationSettings;
+  harmonicRhythm: HarmonicRhythmSettings;
+  progression: ProgressionChord[] | null; // Edited chords for the whole track, replacing the generated ones
+  locks: TrackLocks;
+  partSeeds: Partial<Record<InstrumentType, number>>; // Instruments re-rolled on their own, in place of seed
+}
+
+// Tempo and key a loop was recorded in, so it can be stretched and shifted to the track's.
+// Keys are written like chord names ("A", "F#m"); unpitched loops such as drums have none.
+// Either may be unknown, and the loop then keeps its own tempo or pitch.
+export interface SampleTuning {
+  bpm: number | null;
+  key: string | null;
+}
+
+// One sample of a multi-sample instrument: the note it was recorded at and the softest
+// velocity it plays for. Samples on the same note and velocity layer take turns (round-robin).
+export interface KitZone {
+  url: string;
+  root: number;     // MIDI note; for drums, the General MIDI note it plays
+  velocity: number; // 1-127
+}
+
+// A multi-sample instrument built from uploaded one-shots
+export interface SampleKit {
+  id: string;
+  name: string;
+  instrument: InstrumentType;
+  zones: KitZone[];
 }
 
 export interface InstrumentTrack {
@@ -16,13 +126,25 @@ export interface InstrumentTrack {
   name: string;
   volume: number;
   meterValue: number;
-  player: Tone.Player | null;
+  source: InstrumentSource;
+  player: Tone.GrainPlayer | null; // Granular, so tempo and pitch can change independently
+  voice: PatternVoice | null;
+  kit: SampleKit | null; // Plays the generated part with uploaded one-shots instead of the synth
+  part: Tone.Part | null;
   volumeNode: Tone.Volume | null;
+  sends: EffectSends | null;
   analyser: Tone.Analyser | null;
   samplePath: string | null;
+  sampleTuning: SampleTuning | null; // Null plays the loop as recorded
   loadingState: 'idle' | 'loading' | 'loaded' | 'error';
 }
 
+// Bars the Transport loops over: from startBar (0-based) up to, not including, endBar
+export interface LoopRegion {
+  startBar: number;
+  endBar: number;
+}
+
 export interface UseTrackAudioProps {
   masterVolume: Tone.Volume | null;
   isStarted: boolean;
@@ -0,0 +1,99 @@
+
+import { useCallback, useRef } from 'react';
+import * as Tone from 'tone';
+import { InstrumentTrack, LoopRegion } from './types';
+import type { Arrangement, Section } from '@/lib/music/types';
+import { getMeter } from '@/lib/music/meter';
+import { getSectionAtBar } from '@/lib/music/arrangement';
+import { scheduleTempoMap, setTempoAt } from '@/audio/tempo';
+import { scheduleLoopTuning, tuneLoop, tunedLoops } from '@/audio/sampleTuning';
+import { syncLoop } from '@/audio/loopSync';
+import { onTransportJump, setLoopRegion } from '@/audio/transport';
+
+export function useArrangementScheduler() {
+  // Transport event ids owned by the arrangement (section, tempo and loop tuning changes), so we never cancel other events
+  const scheduledIdsRef = useRef<number[]>([]);
+
+  // Each instrument's loop on the Transport, as the function that takes it off again
+  const loopSyncsRef = useRef<Record<string, () => void>>({});
+  // Removes the listener that catches the arrangement up after a seek, resume or loop back
+  const offJumpRef = useRef<(() => void) | null>(null);
+
+  // Take an instrument's loop off the Transport, before its player is disposed
+  const unsyncLoop = useCallback((instrumentId: string) => {
+    loopSyncsRef.current[instrumentId]?.();
+    delete loopSyncsRef.current[instrumentId];
+  }, []);
+
+  // Run an instrument's loaded loop on the Transport, phase-locked to the arrangement.
+  // `from` (quarter notes) is where a loop added to a running track joins.
+  const syncInstrumentLoop = useCallback((arrangement: Arrangement, instrument: InstrumentTrack, from = 0) => {
+    unsyncLoop(instrument.id);
+    if (!instrument.player?.loaded) return;
+    loopSyncsRef.current[instrument.id] = syncLoop(Tone.Transport, instrument.player, instrument.sampleTuning, arrangement, from);
+  }, [unsyncLoop]);
+
+  // Remove previously scheduled section changes and loops
+  const clearArrangement = useCallback(() => {
+    scheduledIdsRef.current.forEach(id => Tone.Transport.clear(id));
+    scheduledIdsRef.current = [];
+    offJumpRef.current?.();
+    offJumpRef.current = null;
+    Object.keys(loopSyncsRef.current).forEach(unsyncLoop);
+  }, [unsyncLoop]);
+
+  // Schedule per-section instrument on/off states, the loops, the tempo map and loop tuning on the Transport,
+  // and loop the loop region (the whole form without one)
+  const scheduleArrangement = useCallback((
+    arrangement: Arrangement,
+    instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>,
+    loopRegion: LoopRegion | null = null
+  ) => {
+    clearArrangement();
+
+    // Bar positions below depend on the meter, so set it before scheduling
+    const meter = getMeter(arrangement.timeSignature);
+    Tone.Transport.timeSignature = [meter.numerator, meter.denominator];
+
+    const gateSection = (section: Section, time: number) => {
+      Object.values(instrumentsRef.current).forEach(instrument => {
+        if (!instrument.player) return;
+        try {
+          // Gate with the source's own volume so the fader level is left untouched
+          instrument.player.volume.setValueAtTime(section.instruments[instrument.id] ? 0 : -Infinity, time);
+        } catch (err) {
+          console.warn(`Error gating ${instrument.id} for ${section.label}:`, err);
+        }
+      });
+    };
+
+    arrangement.sections.forEach(section => {
+      const id = Tone.Transport.schedule(time => gateSection(section, time), `${section.startBar}:0:0`);
+      scheduledIdsRef.current.push(id);
+    });
+
+    Object.values(instrumentsRef.current).forEach(instrument => syncInstrumentLoop(arrangement, instrument));
+    scheduledIdsRef.current.push(...scheduleTempoMap(Tone.Transport, arrangement));
+    scheduledIdsRef.current.push(...scheduleLoopTuning(Tone.Transport, arrangement, () => tunedLoops(Object.values(instrumentsRef.current))));
+
+    // Changes are only scheduled where they happen, so a jump into the middle of the form catches
+    // up with the section, tempo and loop tuning in force there
+    offJumpRef.current = onTransportJump(Tone.Transport, (time, position) => {
+      const section = getSectionAtBar(arrangement, Math.floor(position / arrangement.beatsPerBar));
+      if (section) gateSection(section, time);
+      setTempoAt(Tone.Transport, arrangement, position, time);
+      tunedLoops(Object.values(instrumentsRef.current)).forEach(loop => tuneLoop(loop, arrangement, position));
+    });
+
+    setLoopRegion(Tone.Transport, arrangement, loopRegion);
+
+    console.log(`Scheduled ${arrangement.sections.length} sections over ${arrangement.totalBars} bars`);
+  }, [clearArrangement, syncInstrumentLoop]);
+
+  return {
+    scheduleArrangement,
+    clearArrangement,
+    syncInstrumentLoop,
+    unsyncLoop
+  };
+}
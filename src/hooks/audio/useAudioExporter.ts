@@ -2,6 +2,17 @@
 import * as Tone from 'tone';
 import { useCallback, useRef } from 'react';
 import { InstrumentTrack, TrackSettings, TrackDownloadResult } from './types';
+import type { Arrangement } from '@/lib/music/types';
+import { renderInstrumentPart } from '@/lib/music/parts';
+import { PATTERN_VOICES } from '@/audio/voices';
+import { loadSamplerVoice } from '@/audio/sampleKits';
+import { getMeter } from '@/lib/music/meter';
+import { secondsAt } from '@/lib/music/tempo';
+import { scheduleTempoMap } from '@/audio/tempo';
+import { LOOP_GRAINS, scheduleLoopTuning, type TunedLoop } from '@/audio/sampleTuning';
+import { syncLoop } from '@/audio/loopSync';
+import { createEffectReturns, createEffectSends, setSendLevels } from '@/audio/effects';
+import { getMoodProfile } from '@/lib/music/moods';
 
 export function useAudioExporter() {
   // Add an in-progress ref to prevent concurrent exports
@@ -11,7 +22,8 @@ export function useAudioExporter() {
   const downloadTrack = useCallback(async (
     isTrackGenerated: boolean,
     instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>,
-    trackSettings: TrackSettings
+    trackSettings: TrackSettings,
+    arrangement: Arrangement
   ): Promise<TrackDownloadResult> => {
     // Guard against concurrent operations
     if (exportInProgressRef.current) {
@@ -22,6 +34,9 @@ export function useAudioExporter() {
     exportInProgressRef.current = true;
     console.log("Starting track export process...");
     
+    // Keep the live context so it can be restored after rendering
+    const liveContext = Tone.getContext();
+    
     try {
       if (!isTrackGenerated) {
         return { success: false, error: "No track has been generated yet" };
@@ -30,10 +45,8 @@ export function useAudioExporter() {
       // Create an offline context to render the track
       console.log("Starting track rendering process...");
       
-      const duration = 16; // 16 bars
-      const beatsPerBar = 4;
-      const bpm = trackSettings.bpm;
-      const trackDuration = (duration * beatsPerBar * 60) / bpm;
+      // Length follows the tempo map, including ramps and the ending
+      const trackDuration = secondsAt(arrangement.tempoMap, arrangement.totalBars * arrangement.beatsPerBar);
       
       // Yield to UI before intensive rendering
       await new Promise(resolve => setTimeout(resolve, 0));
@@ -41,40 +54,84 @@ export function useAudioExporter() {
       // Create an offline context
       const offlineContext = new Tone.OfflineContext(2, trackDuration, 44100);
       Tone.setContext(offlineContext);
+      const meter = getMeter(arrangement.timeSignature);
+      offlineContext.transport.timeSignature = [meter.numerator, meter.denominator];
+      scheduleTempoMap(offlineContext.transport, arrangement);
       
       // Create a master volume node
       const offlineMaster = new Tone.Volume(-6).toDestination();
       
+      // Shared reverb and delay at the mood's send levels
+      const returns = createEffectReturns(offlineMaster);
+      const mood = getMoodProfile(trackSettings.mood);
+      
       // Re-create all instruments in the offline context
       const offlineInstruments: Record<string, any> = {};
+      const tunedOfflineLoops: TunedLoop[] = [];
       
       // Add each instrument to the offline context
       for (const instrument of Object.values(instrumentsRef.current)) {
+        const createVoice = PATTERN_VOICES[instrument.id];
+        
+        // Pattern instruments get a fresh voice playing their generated part, and so do loops
+        // that fell back to it live
+        if ((instrument.source === 'pattern' || instrument.voice) && createVoice) {
+          const volumeNode = new Tone.Volume(instrument.volume).connect(offlineMaster);
+          // A kit that can't load renders with the synth, as it plays live
+          const kit = instrument.source === 'pattern' && instrument.kit?.zones.length ? instrument.kit : null;
+          const voice = kit ? await loadSamplerVoice(kit).catch(() => createVoice()) : createVoice();
+          voice.output.connect(volumeNode);
+          setSendLevels(createEffectSends(volumeNode, returns), instrument.id, mood);
+          
+          const ticks = (quarters: number) => `${Math.round(quarters * offlineContext.transport.PPQ)}i`;
+          const notes = renderInstrumentPart(instrument.id, arrangement, trackSettings).map(note => ({
+            time: ticks(note.time),
+            duration: ticks(note.duration),
+            midi: note.midi,
+            velocity: note.velocity,
+          }));
+          new Tone.Part((time, note) => {
+            voice.trigger(note.midi, note.duration, time, note.velocity);
+          }, notes).start(0);
+          continue;
+        }
+        
         if (!instrument.samplePath) continue;
         
         const volumeNode = new Tone.Volume(instrument.volume);
         
-        // Create a player for each instrument
-        const player = new Tone.Player({
+        // Create a player for each instrument, stretched and shifted to the track like the live loop
+        const player = new Tone.GrainPlayer({
           url: instrument.samplePath,
           loop: true,
+          ...LOOP_GRAINS,
         }).connect(volumeNode);
+        if (instrument.sampleTuning) tunedOfflineLoops.push({ player, tuning: instrument.sampleTuning });
         
         // Connect to the master volume
         volumeNode.connect(offlineMaster);
+        setSendLevels(createEffectSends(volumeNode, returns), instrument.id, mood);
         
         offlineInstruments[instrument.id] = {
           player,
-          volumeNode
+          volumeNode,
+          tuning: instrument.sampleTuning
         };
       }
       
-      // Start all players
+      // Wait for the offline players' samples and the reverb impulse before starting
+      await Tone.loaded();
+      await returns.reverb.ready;
+      
+      // Follow the tempo and key changes with the loops, put the loops on the Transport phase-locked
+      // like the live ones, then start the Transport driving them and the patterns
+      scheduleLoopTuning(offlineContext.transport, arrangement, () => tunedOfflineLoops);
       for (const inst of Object.values(offlineInstruments)) {
         if (inst.player) {
-          inst.player.start();
+          syncLoop(offlineContext.transport, inst.player, inst.tuning, arrangement);
         }
       }
+      offlineContext.transport.start(0);
       
       // Yield to UI before intensive rendering
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -105,7 +162,7 @@ export function useAudioExporter() {
       const url = URL.createObjectURL(blob);
       
       // Create a filename based on track settings
-      const filename = `track-${trackSettings.genre}-${trackSettings.key}-${trackSettings.bpm}bpm.wav`;
+      const filename = `track-${trackSettings.genre}-${trackSettings.key}-${trackSettings.mode}-${trackSettings.bpm}bpm.wav`;
       
       // Create and click a download link
       const a = document.createElement('a');
@@ -126,7 +183,7 @@ export function useAudioExporter() {
     } finally {
       // Always reset the in-progress flag and restore the main context
       exportInProgressRef.current = false;
-      Tone.setContext(Tone.getContext());
+      Tone.setContext(liveContext);
       console.log("Export process complete, flags reset");
     }
   }, []);
@@ -0,0 +1,90 @@
+import { useCallback, useRef } from 'react';
+import * as Tone from 'tone';
+import { InstrumentTrack, TrackSettings } from './types';
+import { createEffectReturns, createEffectSends, setSendLevels, type EffectReturns } from '@/audio/effects';
+import { getMoodProfile } from '@/lib/music/moods';
+
+export function useEffectSends() {
+  // Effect returns live as long as their audio context
+  const returnsRef = useRef<EffectReturns | null>(null);
+
+  // Dispose every instrument's sends (the shared returns are kept)
+  const clearSends = useCallback((
+    instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>
+  ) => {
+    Object.values(instrumentsRef.current).forEach(instrument => {
+      if (!instrument.sends) return;
+      try {
+        instrument.sends.dispose();
+      } catch (err) {
+        console.warn(`Error disposing sends for ${instrument.id}:`, err);
+      }
+      instrument.sends = null;
+    });
+  }, []);
+
+  // Dispose the shared returns, e.g. when unmounting or when they belong to an old audio context
+  const disposeReturns = useCallback(() => {
+    if (!returnsRef.current) return;
+    try {
+      returnsRef.current.dispose();
+    } catch (err) {
+      console.warn('Error disposing effect returns:', err);
+    }
+    returnsRef.current = null;
+  }, []);
+
+  // Shared returns of the current audio context, created on first use
+  const getReturns = useCallback((masterVolume: Tone.Volume | null): EffectReturns => {
+    const context = Tone.getContext();
+    if (!returnsRef.current || returnsRef.current.reverb.context !== context) {
+      disposeReturns();
+      const destination = masterVolume && masterVolume.context === context ? masterVolume : Tone.getDestination();
+      returnsRef.current = createEffectReturns(destination);
+    }
+    return returnsRef.current;
+  }, [disposeReturns]);
+
+  // Route one instrument to the shared reverb and delay, replacing its old sends
+  const applyInstrumentSends = useCallback((
+    settings: TrackSettings,
+    instrument: InstrumentTrack,
+    masterVolume: Tone.Volume | null
+  ) => {
+    if (instrument.sends) {
+      try {
+        instrument.sends.dispose();
+      } catch (err) {
+        console.warn(`Error disposing sends for ${instrument.id}:`, err);
+      }
+      instrument.sends = null;
+    }
+    if (!instrument.volumeNode) return;
+
+    try {
+      instrument.sends = createEffectSends(instrument.volumeNode, getReturns(masterVolume));
+      setSendLevels(instrument.sends, instrument.id, getMoodProfile(settings.mood));
+    } catch (err) {
+      console.warn(`Error creating sends for ${instrument.id}:`, err);
+    }
+  }, [getReturns]);
+
+  // Route every instrument to the shared reverb and delay at the levels of the track's mood
+  const applySends = useCallback((
+    settings: TrackSettings,
+    instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>,
+    masterVolume: Tone.Volume | null
+  ) => {
+    clearSends(instrumentsRef);
+    Object.values(instrumentsRef.current).forEach(instrument => {
+      applyInstrumentSends(settings, instrument, masterVolume);
+    });
+  }, [clearSends, applyInstrumentSends]);
+
+  return {
+    applySends,
+    applyInstrumentSends,
+    clearSends,
+    disposeReturns
+  };
+}
@@ -3,9 +3,12 @@ import { useCallback } from 'react';
 import * as Tone from 'tone';
 import { InstrumentType, InstrumentTrack } from './types';
 import { useTrackSamples } from './useTrackSamples';
+import { PATTERN_VOICES, type PatternVoice } from '@/audio/voices';
+import { loadSamplerVoice } from '@/audio/sampleKits';
+import { LOOP_GRAINS } from '@/audio/sampleTuning';
 
 export function useInstrumentSetup() {
-  const { getSampleUrlForInstrument } = useTrackSamples();
+  const { getSampleForInstrument } = useTrackSamples();
 
   // Set instrument volume with improved error handling
   const setInstrumentVolume = useCallback((
@@ -56,7 +59,8 @@ export function useInstrumentSetup() {
     masterVolume: Tone.Volume | null,
     setInstruments: React.Dispatch<React.SetStateAction<InstrumentTrack[]>>,
     setError: React.Dispatch<React.SetStateAction<string | null>>,
-    currentContextId?: string | null
+    currentContextId?: string | null,
+    seed?: number
   ) => {
     console.log(`Setting up ${instrumentId} with context ID: ${currentContextId || 'unknown'}`);
     
@@ -66,38 +70,115 @@ export function useInstrumentSetup() {
       i.id === instrumentId ? { ...i, loadingState: 'loading' } : i
     ));
     
-    // If we have a saved sample path, use it, otherwise try to get a new one
+    // Restore volume from session storage before creating nodes
+    const savedVolumeKey = `trackAlchemy_${instrumentId}_volume`;
+    const savedVolume = sessionStorage.getItem(savedVolumeKey);
+    if (savedVolume !== null) {
+      const volumeValue = parseFloat(savedVolume);
+      if (!isNaN(volumeValue)) {
+        instrument.volume = volumeValue;
+        console.log(`Restored ${instrumentId} volume: ${volumeValue}dB`);
+      }
+    }
+    
+    // Play the instrument's generated part (synthesized unless a kit voice is given) through its own
+    // volume and analyser. Also the fallback for a loop or kit that fails to load, which keeps its
+    // source but shows the error state.
+    const createVoice = PATTERN_VOICES[instrumentId];
+    const connectPatternVoice = (loadingState: 'loaded' | 'error', voice: PatternVoice = createVoice!()) => {
+      const volumeNode = new Tone.Volume(instrument.volume);
+      const analyser = new Tone.Analyser('waveform', 128);
+      
+      voice.output.connect(volumeNode);
+      volumeNode.connect(analyser);
+      if (masterVolume && masterVolume.context === Tone.getContext()) {
+        volumeNode.connect(masterVolume);
+      } else {
+        volumeNode.connect(Tone.getDestination());
+      }
+      
+      instrument.loadingState = loadingState;
+      instrument.player = null;
+      instrument.voice = voice;
+      instrument.volumeNode = volumeNode;
+      instrument.analyser = analyser;
+      
+      setInstruments(prev => prev.map(i => 
+        i.id === instrumentId ? { 
+          ...i, 
+          player: null,
+          voice, 
+          volumeNode, 
+          analyser, 
+          loadingState,
+          volume: instrument.volume
+        } : i
+      ));
+      
+      return { voice, volumeNode, analyser };
+    };
+    
+    // Pattern instruments synthesize their generated part instead of looping a sample
+    if (instrument.source === 'pattern' && createVoice) {
+      try {
+        const kit = instrument.kit;
+        if (kit && kit.zones.length > 0) {
+          try {
+            const result = connectPatternVoice('loaded', await loadSamplerVoice(kit));
+            console.log(`${instrumentId} kit "${kit.name}" loaded`);
+            return result;
+          } catch (kitErr) {
+            console.error(`Error loading ${instrumentId} kit "${kit.name}":`, kitErr);
+            setError(prev => prev || `Couldn't load the ${kit.name} kit. Playing the synthesized ${instrumentId} instead.`);
+            return connectPatternVoice('error');
+          }
+        }
+        
+        const result = connectPatternVoice('loaded');
+        console.log(`${instrumentId} pattern voice created`);
+        return result;
+      } catch (err) {
+        console.error(`Error creating ${instrumentId} pattern voice:`, err);
+        instrument.loadingState = 'error';
+        setInstruments(prev => prev.map(i => 
+          i.id === instrumentId ? { ...i, loadingState: 'error' } : i
+        ));
+        setError(prev => prev || `Failed to set up ${instrumentId} pattern.`);
+        return null;
+      }
+    }
+    
+    // If we have a saved sample path, use it (with its tuning), otherwise try to get a new one
     let url = instrument.samplePath;
     if (!url) {
-      url = await getSampleUrlForInstrument(instrumentId);
+      const sample = await getSampleForInstrument(instrumentId, seed);
+      url = sample?.url ?? null;
       instrument.samplePath = url;
+      instrument.sampleTuning = sample?.tuning ?? null;
     }
     
     if (!url) {
       console.error(`Could not find a sample for ${instrumentId}`);
-      setError(prev => prev || `No sample found for ${instrumentId}. Using fallback.`);
+      setError(prev => prev || (createVoice
+        ? `No sample found for ${instrumentId}. Playing the synthesized part instead.`
+        : `No sample found for ${instrumentId}.`));
       
       // Update instrument state to show error
       instrument.loadingState = 'error';
       setInstruments(prev => prev.map(i => 
-        i.id === instrumentId ? { ...i, loadingState: 'error', samplePath: null } : i
+        i.id === instrumentId ? { ...i, loadingState: 'error', samplePath: null, sampleTuning: null } : i
       ));
       
-      return null;
+      if (!createVoice) return null;
+      try {
+        return connectPatternVoice('error');
+      } catch (fallbackErr) {
+        console.error(`Failed to create fallback for ${instrumentId}:`, fallbackErr);
+        return null;
+      }
     }
     
     try {
-      // Restore volume from session storage before creating nodes
-      const savedVolumeKey = `trackAlchemy_${instrumentId}_volume`;
-      const savedVolume = sessionStorage.getItem(savedVolumeKey);
-      if (savedVolume !== null) {
-        const volumeValue = parseFloat(savedVolume);
-        if (!isNaN(volumeValue)) {
-          instrument.volume = volumeValue;
-          console.log(`Restored ${instrumentId} volume: ${volumeValue}dB`);
-        }
-      }
-      
       // IMPORTANT: Always get the current audio context from Tone.js
       const currentContext = Tone.getContext();
       if (!currentContext) {
@@ -117,12 +198,16 @@ export function useInstrumentSetup() {
       
       console.log(`Loading ${instrumentId} sample from: ${url}`);
       
-      // Set up player with better error handling
-      const player = new Tone.Player({
+      // Settles once the loop is connected or has fallen back, so callers can schedule the right source
+      let settle = () => {};
+      const settled = new Promise<void>(resolve => { settle = resolve; });
+      let fallback: ReturnType<typeof connectPatternVoice> | null = null;
+      
+      // Set up a granular player so the loop can be stretched and shifted to the track, with better error handling
+      const player = new Tone.GrainPlayer({
         url,
         loop: true,
-        fadeIn: 0.01,
-        fadeOut: 0.01,
+        ...LOOP_GRAINS,
         onload: () => {
           console.log(`${instrumentId} loaded successfully from ${url}`);
           
@@ -148,6 +233,8 @@ export function useInstrumentSetup() {
               volumeNode.connect(Tone.getDestination());
             }
             
+            // The loop joins the Transport once the arrangement is scheduled (syncInstrumentLoop)
+            
             // Update state to show this instrument is ready
             instrument.loadingState = 'loaded';
             instrument.player = player;
@@ -162,9 +249,11 @@ export function useInstrumentSetup() {
                 analyser, 
                 loadingState: 'loaded',
                 samplePath: url,
+                sampleTuning: instrument.sampleTuning,
                 volume: instrument.volume
               } : i
             ));
+            settle();
           } catch (connectionErr) {
             console.error(`Error connecting ${instrumentId}:`, connectionErr);
             handleLoadError(new Error(`Connection error: ${connectionErr.message}`));
@@ -191,58 +280,25 @@ export function useInstrumentSetup() {
           console.warn(`Error cleaning up failed ${instrumentId} setup:`, err);
         }
         
-        // Use fallback to a simple oscillator if sample fails to load
-        setError(prev => prev || `Failed to load ${instrumentId} sample. Using fallback.`);
+        // Fall back to synthesizing the generated part if the sample fails to load
+        if (!createVoice) {
+          setError(prev => prev || `Failed to load ${instrumentId} sample.`);
+          settle();
+          return;
+        }
+        setError(prev => prev || `Failed to load ${instrumentId} sample. Playing the synthesized part instead.`);
         
         try {
-          // Get the current context again to make sure we're using the right one
-          const fallbackContext = Tone.getContext();
-          
-          // Create new nodes for fallback using current context
-          const fallbackVolumeNode = new Tone.Volume(instrument.volume);
-          const fallbackAnalyser = new Tone.Analyser('waveform', 128);
-          const fallbackOsc = new Tone.Oscillator({
-            frequency: instrumentId === 'bass' ? 55 : 
-                    instrumentId === 'guitar' ? 196 :
-                    instrumentId === 'keys' ? 261 : 200,
-            type: instrumentId === 'drums' ? 'square' : 'sine',
-          });
-          
-          // Connect nodes
-          fallbackOsc.connect(fallbackVolumeNode);
-          fallbackVolumeNode.connect(fallbackAnalyser);
-          
-          // Connect to master or destination
-          if (masterVolume && masterVolume.context === fallbackContext) {
-            fallbackVolumeNode.connect(masterVolume);
-          } else {
-            fallbackVolumeNode.connect(Tone.getDestination());
-          }
-          
-          // Replace the player with oscillator in the instrument object
-          instrument.player = fallbackOsc as unknown as Tone.Player;
-          instrument.volumeNode = fallbackVolumeNode;
-          instrument.analyser = fallbackAnalyser;
-          instrument.loadingState = 'error';
-          
-          setInstruments(prev => prev.map(i => 
-            i.id === instrumentId ? { 
-              ...i, 
-              player: fallbackOsc as unknown as Tone.Player, 
-              loadingState: 'error',
-              volumeNode: fallbackVolumeNode, 
-              analyser: fallbackAnalyser,
-              volume: instrument.volume
-            } : i
-          ));
-          
-          console.log(`${instrumentId} fallback oscillator created successfully`);
+          fallback = connectPatternVoice('error');
+          console.log(`${instrumentId} fallback pattern voice created`);
         } catch (fallbackErr) {
           console.error(`Failed to create fallback for ${instrumentId}:`, fallbackErr);
         }
+        settle();
       }
       
-      return { player, volumeNode, analyser };
+      await settled;
+      return fallback ?? { player, volumeNode, analyser };
     } catch (err) {
       console.error(`Error setting up ${instrumentId}:`, err);
       
@@ -262,7 +318,7 @@ export function useInstrumentSetup() {
       
       return null;
     }
-  }, [getSampleUrlForInstrument]);
+  }, [getSampleForInstrument]);
 
   return {
     setInstrumentVolume,
@@ -2,11 +2,68 @@
 // Import MidiWriter correctly - it's a default export
 import MidiWriter from 'midi-writer-js';
 import { TrackSettings } from './types';
+import { keySignature, midiToNoteName } from '@/lib/music/theory';
+import { INSTRUMENT_IDS } from '@/lib/music/arrangement';
+import { renderParts } from '@/lib/music/parts';
+import type { Arrangement } from '@/lib/music/types';
+import { getMeter } from '@/lib/music/meter';
+import { steppedTempoMap } from '@/lib/music/tempo';
+
+// MIDI ticks per quarter note used by MidiWriter
+const TICKS_PER_BEAT = 128;
+
+// Tempo ramps are written as a tempo change every eighth note
+const RAMP_STEP = 0.5;
+
+// Bytes of a MIDI variable-length quantity
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  for (let rest = value >> 7; rest > 0; rest >>= 7) bytes.unshift((rest & 0x7f) | 0x80);
+  return bytes;
+};
+
+// A meta event at an explicit delta. MidiWriter's own tempo and key signature
+// events are always written with a zero delta, so later changes would all land on tick 0.
+const metaEvent = (delta: number, type: number, data: number[]): MidiWriter.Event =>
+  ({ data: [...variableLength(delta), 0xff, type, data.length, ...data] });
+
+const TEMPO_META = 0x51;
+const KEY_SIGNATURE_META = 0x59;
+
+// First track of the file: time signature, tempo changes and key changes, no notes
+const buildConductorTrack = (arrangement: Arrangement): MidiWriter.Track => {
+  const track = new MidiWriter.Track();
+  const meter = getMeter(arrangement.timeSignature);
+  track.addTrackName('conductor');
+  track.setTimeSignature(meter.numerator, meter.denominator);
+
+  const tempoChanges = steppedTempoMap(arrangement.tempoMap, RAMP_STEP).map(({ time, bpm }) => {
+    const microseconds = Math.round(60000000 / bpm);
+    return { time, type: TEMPO_META, data: [(microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff] };
+  });
+  const keyChanges = arrangement.sections
+    .filter((section, i) => i === 0 || section.key !== arrangement.sections[i - 1].key || section.mode !== arrangement.sections[i - 1].mode)
+    .map(section => {
+      const { accidentals, minor } = keySignature(section.key, section.mode);
+      return { time: section.startBar * arrangement.beatsPerBar, type: KEY_SIGNATURE_META, data: [accidentals & 0xff, minor ? 1 : 0] };
+    });
+
+  let previousTick = 0;
+  [...tempoChanges, ...keyChanges]
+    .sort((a, b) => a.time - b.time)
+    .forEach(({ time, type, data }) => {
+      const tick = Math.round(time * TICKS_PER_BEAT);
+      track.addEvent(metaEvent(tick - previousTick, type, data));
+      previousTick = tick;
+    });
+  return track;
+};
 
 export function useMidiExporter() {
   const downloadMidiTrack = (
     isTrackGenerated: boolean,
-    trackSettings: TrackSettings
+    trackSettings: TrackSettings,
+    arrangement: Arrangement
   ) => {
     if (!isTrackGenerated) {
       return { success: false, error: "No track has been generated yet" };
@@ -14,103 +71,47 @@ export function useMidiExporter() {
 
     try {
       // Create a new MIDI writer instance
-      const tracks: MidiWriter.Track[] = [];
+      const tracks: MidiWriter.Track[] = [buildConductorTrack(arrangement)];
 
-      // Create tracks for each instrument
-      const instrumentTypes = ['drums', 'bass', 'guitar', 'keys'];
-      
-      // Define basic note patterns based on genre and mood
-      const getNotesForInstrument = (instrument: string) => {
-        const keyNotes: Record<string, string[]> = {
-          'C': ['C4', 'E4', 'G4', 'C5'],
-          'D': ['D4', 'F#4', 'A4', 'D5'],
-          'E': ['E4', 'G#4', 'B4', 'E5'],
-          'F': ['F4', 'A4', 'C5', 'F5'],
-          'G': ['G4', 'B4', 'D5', 'G5'],
-          'A': ['A4', 'C#5', 'E5', 'A5'],
-          'B': ['B4', 'D#5', 'F#5', 'B5'],
-        };
-        
-        // Get notes for the selected key (default to C if not found)
-        const notes = keyNotes[trackSettings.key] || keyNotes['C'];
-        
-        // Create different patterns per instrument
-        switch (instrument) {
-          case 'drums':
-            return [
-              { pitch: 'C2', duration: '4' }, // Kick
-              { pitch: 'D2', duration: '8' }, // Snare
-              { pitch: 'F#2', duration: '16' }, // Hi-hat
-              { pitch: 'D2', duration: '8' }, // Snare
-            ];
-          case 'bass':
-            return [
-              { pitch: notes[0].replace('4', '2'), duration: '4' },
-              { pitch: notes[2].replace('4', '2'), duration: '4' },
-              { pitch: notes[0].replace('4', '2'), duration: '2' },
-            ];
-          case 'guitar':
-            return [
-              { pitch: [notes[0], notes[2]], duration: '4' },
-              { pitch: [notes[1], notes[3]], duration: '4' },
-              { pitch: [notes[0], notes[2]], duration: '2' },
-            ];
-          case 'keys':
-            return [
-              { pitch: notes, duration: '1' },
-            ];
-          default:
-            return [{ pitch: 'C4', duration: '4' }];
-        }
-      };
+      // Render every instrument's part from the arrangement
+      const parts = renderParts(arrangement, trackSettings);
 
-      // Create a MIDI track for each instrument
-      instrumentTypes.forEach((instrument, i) => {
+      // Create a MIDI track for each instrument; the melody only when the track has one
+      INSTRUMENT_IDS.forEach((instrument, i) => {
+        if (instrument === 'melody' && !trackSettings.melody) return;
         const track = new MidiWriter.Track();
+        track.addTrackName(instrument);
         
         // Set instrument based on general MIDI standards
         const instrumentGMNumber = {
-          'drums': 118, // Synth Drum
+          'drums': 0,   // Standard Kit (channel 10)
           'bass': 33,   // Electric Bass
           'guitar': 27, // Clean Electric Guitar
-          'keys': 0     // Acoustic Grand Piano
+          'keys': 0,    // Acoustic Grand Piano
+          'melody': 73  // Flute
         };
         
         // Set the instrument voice
         track.addEvent(
           new MidiWriter.ProgramChangeEvent({
-            instrument: instrumentGMNumber[instrument as keyof typeof instrumentGMNumber]
+            instrument: instrumentGMNumber[instrument]
           })
         );
 
-        // Calculate microseconds per quarter note (MPQN) for tempo
-        // MPQN = 60,000,000 / BPM
-        const mpqn = Math.round(60000000 / trackSettings.bpm);
-        
-        // Create a tempo event by directly passing bpm and mpqn values
-        // Fix for the TS2554 error - setTempo expects 2 arguments in this version
-        track.setTempo(trackSettings.bpm, mpqn);
-        
-        // Set channel using channel parameter on the note events
-        // For drums, use channel 10 (9 in zero-based) as per MIDI standard
-        let channel = instrument === 'drums' ? 9 : i % 8;
-        
-        // Generate notes based on instrument type
-        const notesPattern = getNotesForInstrument(instrument);
+        // MidiWriter channels are 1-based; drums go on channel 10 as per the GM standard
+        const channel = instrument === 'drums' ? 10 : i + 1;
         
-        // Generate all notes synchronously to ensure they're added to the track
-        // Repeat the pattern a few times
-        for (let bar = 0; bar < trackSettings.duration / 4; bar++) {
-          notesPattern.forEach(noteInfo => {
-            const event = new MidiWriter.NoteEvent({
-              pitch: noteInfo.pitch,
-              duration: noteInfo.duration,
-              velocity: 100,
-              channel: channel // Set channel directly on note events
-            });
-            track.addEvent(event);
+        // Place every note at its absolute tick so sections line up across tracks
+        parts[instrument].forEach(note => {
+          const event = new MidiWriter.NoteEvent({
+            pitch: [midiToNoteName(note.midi) as MidiWriter.Pitch],
+            duration: `T${Math.max(1, Math.round(note.duration * TICKS_PER_BEAT))}`,
+            startTick: Math.round(note.time * TICKS_PER_BEAT),
+            velocity: Math.max(1, Math.min(100, Math.round(note.velocity * 100))),
+            channel
           });
-        }
+          track.addEvent(event);
+        });
         
         tracks.push(track);
       });
@@ -126,7 +127,7 @@ export function useMidiExporter() {
       const url = URL.createObjectURL(blob);
       
       // Create a filename based on track settings
-      const filename = `midi-${trackSettings.genre}-${trackSettings.key}-${trackSettings.bpm}bpm.mid`;
+      const filename = `midi-${trackSettings.genre}-${trackSettings.key}-${trackSettings.mode}-${trackSettings.bpm}bpm.mid`;
       
       // Create and click a download link
       const a = document.createElement('a');
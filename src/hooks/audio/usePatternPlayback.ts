@@ -0,0 +1,80 @@
+
+import { useCallback } from 'react';
+import * as Tone from 'tone';
+import { InstrumentTrack, TrackSettings } from './types';
+import type { Arrangement } from '@/lib/music/types';
+import { renderInstrumentPart } from '@/lib/music/parts';
+
+// Quarter notes to Transport ticks, so timing follows tempo changes
+const toTicks = (quarters: number): Tone.Unit.Time => `${Math.round(quarters * Tone.Transport.PPQ)}i`;
+
+export function usePatternPlayback() {
+  // Dispose every instrument's Transport part
+  const clearPatterns = useCallback((
+    instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>
+  ) => {
+    Object.values(instrumentsRef.current).forEach(instrument => {
+      if (!instrument.part) return;
+      try {
+        instrument.part.dispose();
+      } catch (err) {
+        console.warn(`Error disposing part for ${instrument.id}:`, err);
+      }
+      instrument.part = null;
+    });
+  }, []);
+
+  // Schedule one pattern instrument's generated part on the Transport, replacing its old one
+  const schedulePattern = useCallback((
+    arrangement: Arrangement,
+    settings: TrackSettings,
+    instrument: InstrumentTrack
+  ) => {
+    if (instrument.part) {
+      try {
+        instrument.part.dispose();
+      } catch (err) {
+        console.warn(`Error disposing part for ${instrument.id}:`, err);
+      }
+      instrument.part = null;
+    }
+
+    // Pattern instruments, and loops that fell back to synthesizing their part
+    const voice = instrument.voice;
+    if (!voice) return;
+
+    const notes = renderInstrumentPart(instrument.id, arrangement, settings).map(note => ({
+      time: toTicks(note.time),
+      duration: toTicks(note.duration),
+      midi: note.midi,
+      velocity: note.velocity,
+    }));
+
+    const part = new Tone.Part((time, note) => {
+      voice.trigger(note.midi, note.duration, time, note.velocity);
+    }, notes);
+    part.start(0);
+    instrument.part = part;
+
+    console.log(`Scheduled ${notes.length} ${instrument.id} notes`);
+  }, []);
+
+  // Schedule the generated part of every pattern instrument on the Transport
+  const schedulePatterns = useCallback((
+    arrangement: Arrangement,
+    settings: TrackSettings,
+    instrumentsRef: React.MutableRefObject<Record<string, InstrumentTrack>>
+  ) => {
+    clearPatterns(instrumentsRef);
+
+    Object.values(instrumentsRef.current).forEach(instrument => {
+      schedulePattern(arrangement, settings, instrument);
+    });
+  }, [clearPatterns, schedulePattern]);
+
+  return {
+    schedulePattern,
+    schedulePatterns,
+    clearPatterns
+  };
+}
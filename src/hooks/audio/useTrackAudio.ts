@@ -1,21 +1,35 @@
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import * as Tone from 'tone';
-import { InstrumentType, InstrumentTrack, TrackSettings, UseTrackAudioProps } from './types';
+import { InstrumentType, InstrumentTrack, InstrumentSource, LoopRegion, SampleKit, TrackSettings, UseTrackAudioProps } from './types';
 import { useAudioMeter } from './useAudioMeter';
 import { useAudioExporter } from './useAudioExporter';
 import { useMidiExporter } from './useMidiExporter';
 import { useTrackSamples } from './useTrackSamples';
 import { useTrackState } from './useTrackState';
 import { useInstrumentSetup } from './useInstrumentSetup';
+import { useArrangementScheduler } from './useArrangementScheduler';
+import { usePatternPlayback } from './usePatternPlayback';
+import { useEffectSends } from './useEffectSends';
+import { useStyleProfile } from '@/hooks/useStyleProfile';
+import { generateArrangement, getSectionAtBar } from '@/lib/music/arrangement';
+import { partSeed } from '@/lib/music/parts';
+import { randomSeed } from '@/lib/music/random';
+import { tuneLoop } from '@/audio/sampleTuning';
+import { clampLoopRegion, setLoopRegion as setTransportLoop } from '@/audio/transport';
 
-export type { InstrumentType, TrackSettings, InstrumentTrack } from './types';
+export type { InstrumentType, InstrumentSource, TrackSettings, InstrumentTrack } from './types';
 
 export function useTrackAudio({ masterVolume, isStarted, startContext, getContextId, resetContext }: UseTrackAudioProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // Transport position in quarter notes (to the sixteenth) and the bars it loops over, if not the whole form
+  const [position, setPosition] = useState(0);
+  const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+  const loopRegionRef = useRef<LoopRegion | null>(null);
+  
   // Add concurrency guard refs
   const generationInProgressRef = useRef(false);
   const playbackInProgressRef = useRef(false);
@@ -27,10 +41,16 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       name: 'Drums', 
       volume: -12, 
       meterValue: 0, 
+      source: 'pattern',
       player: null, 
+      voice: null,
+      part: null,
       volumeNode: null, 
+      sends: null,
       analyser: null,
       samplePath: null,
+      sampleTuning: null,
+      kit: null,
       loadingState: 'idle'
     },
     bass: { 
@@ -38,10 +58,16 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       name: 'Bass', 
       volume: -15, 
       meterValue: 0, 
+      source: 'pattern',
       player: null, 
+      voice: null,
+      part: null,
       volumeNode: null, 
+      sends: null,
       analyser: null,
       samplePath: null,
+      sampleTuning: null,
+      kit: null,
       loadingState: 'idle'
     },
     guitar: { 
@@ -49,10 +75,16 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       name: 'Guitar', 
       volume: -18, 
       meterValue: 0, 
+      source: 'pattern',
       player: null, 
+      voice: null,
+      part: null,
       volumeNode: null, 
+      sends: null,
       analyser: null,
       samplePath: null,
+      sampleTuning: null,
+      kit: null,
       loadingState: 'idle'
     },
     keys: { 
@@ -60,10 +92,33 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       name: 'Keys', 
       volume: -20, 
       meterValue: 0, 
+      source: 'pattern',
+      player: null, 
+      voice: null,
+      part: null,
+      volumeNode: null, 
+      sends: null,
+      analyser: null,
+      samplePath: null,
+      sampleTuning: null,
+      kit: null,
+      loadingState: 'idle'
+    },
+    melody: { 
+      id: 'melody', 
+      name: 'Melody', 
+      volume: -14, 
+      meterValue: 0, 
+      source: 'pattern',
       player: null, 
+      voice: null,
+      part: null,
       volumeNode: null, 
+      sends: null,
       analyser: null,
       samplePath: null,
+      sampleTuning: null,
+      kit: null,
       loadingState: 'idle'
     },
   });
@@ -81,8 +136,11 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
   
   const { downloadTrack } = useAudioExporter();
   const { downloadMidiTrack } = useMidiExporter();
-  const { getSampleUrlForInstrument } = useTrackSamples();
+  const { getSampleForInstrument } = useTrackSamples();
   const { setupInstrument, setInstrumentVolume: setVolume } = useInstrumentSetup();
+  const { scheduleArrangement, syncInstrumentLoop, unsyncLoop } = useArrangementScheduler();
+  const { schedulePattern, schedulePatterns, clearPatterns } = usePatternPlayback();
+  const { applySends, applyInstrumentSends, clearSends, disposeReturns } = useEffectSends();
   
   const {
     trackSettings,
@@ -91,40 +149,55 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
     setIsTrackGenerated,
     loadSavedState
   } = useTrackState(instrumentsRef, setInstruments);
+  
+  // Song form derived from the current settings (deterministic from the seed) and personal style
+  const { profile: styleProfile } = useStyleProfile();
+  const arrangement = useMemo(() => generateArrangement(trackSettings, styleProfile), [trackSettings, styleProfile]);
 
+  // Follow the playhead while playing, a sixteenth at a time (what's heard, not the lookahead)
+  useEffect(() => {
+    const read = () => setPosition(Math.floor(Tone.Transport.getTicksAtTime(Tone.immediate()) / Tone.Transport.PPQ * 4) / 4);
+    read();
+    if (!isPlaying) return;
+    let frame = requestAnimationFrame(function follow() {
+      read();
+      frame = requestAnimationFrame(follow);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+  
+  // Keep the loop region inside a regenerated form
+  useEffect(() => {
+    const clamped = clampLoopRegion(loopRegionRef.current, arrangement.totalBars);
+    loopRegionRef.current = clamped;
+    setLoopRegionState(clamped);
+  }, [arrangement.totalBars]);
+  
   // Set up master analyser
   useEffect(() => {
     return setupMasterAnalyser(masterVolume);
   }, [masterVolume, setupMasterAnalyser]);
   
-  // Clean up all instruments when unmounting or when audio context changes
+  // Tear down all instruments when unmounting. Play, pause and stop leave the nodes alone: the
+  // Transport starts and stops the loops, parts and voices on them, and the sends stay routed.
   useEffect(() => {
+    const instruments = instrumentsRef.current;
     return () => {
-      // Stop any playing audio first
-      if (isPlaying) {
-        Tone.Transport.stop();
-        Object.values(instrumentsRef.current).forEach(instrument => {
-          if (instrument.player) {
-            try {
-              instrument.player.stop();
-            } catch (err) {
-              console.error(`Error stopping ${instrument.id}:`, err);
-            }
-          }
-        });
-      }
-      
-      // Dispose of all audio nodes
-      Object.values(instrumentsRef.current).forEach(instrument => {
+      Tone.Transport.stop();
+      Object.values(instruments).forEach(instrument => {
+        if (instrument.part) instrument.part.dispose();
+        if (instrument.voice) instrument.voice.dispose();
+        if (instrument.sends) instrument.sends.dispose();
         if (instrument.player) instrument.player.dispose();
         if (instrument.volumeNode) instrument.volumeNode.dispose();
         if (instrument.analyser) instrument.analyser.dispose();
       });
+      disposeReturns();
     };
-  }, [isPlaying]);
+  }, [disposeReturns]);
   
   // Function to reload track from saved state - with improved protection
-  const regenerateTrackFromSavedState = useCallback(async () => {
+  const regenerateTrackFromSavedState = useCallback(async (savedSettings?: TrackSettings) => {
     // Prevent concurrent regeneration
     if (generationInProgressRef.current) {
       console.log("Generation already in progress, skipping duplicate request");
@@ -151,7 +224,6 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       // Stop any playing audio first
       if (isPlaying) {
         setIsPlaying(false);
-        Tone.Transport.stop();
         Object.values(instrumentsRef.current).forEach(instrument => {
           if (instrument.player) {
             try {
@@ -162,11 +234,16 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
           }
         });
       }
+      // A paused Transport keeps its position; the new track starts from the top
+      Tone.Transport.stop();
+      setPosition(0);
       
       // Yield to UI thread before intensive operations
       await new Promise(resolve => setTimeout(resolve, 0));
       
-      // Clean up any existing players
+      // Clean up any existing parts and players
+      clearPatterns(instrumentsRef);
+      clearSends(instrumentsRef);
       Object.values(instrumentsRef.current).forEach(instrument => {
         if (instrument.player) {
           try {
@@ -179,6 +256,14 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
             console.warn(`Error disposing player for ${instrument.id}:`, err);
           }
         }
+        if (instrument.voice) {
+          try {
+            instrument.voice.dispose();
+            instrument.voice = null;
+          } catch (err) {
+            console.warn(`Error disposing voice for ${instrument.id}:`, err);
+          }
+        }
         if (instrument.volumeNode) {
           try {
             instrument.volumeNode.dispose();
@@ -220,6 +305,14 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
         if (result) successCount++;
       }
       
+      // Follow the arrangement's sections during playback. Restored settings are passed in
+      // because state updates from the restore haven't reached this closure yet.
+      const settings = savedSettings || trackSettings;
+      const savedArrangement = savedSettings ? generateArrangement(savedSettings) : arrangement;
+      scheduleArrangement(savedArrangement, instrumentsRef, loopRegionRef.current);
+      schedulePatterns(savedArrangement, settings, instrumentsRef);
+      applySends(settings, instrumentsRef, masterVolume);
+      
       if (successCount > 0) {
         setIsTrackGenerated(true);
         console.log(`Track regenerated with ${successCount}/${attemptCount} instruments successfully loaded`);
@@ -247,7 +340,7 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       generationInProgressRef.current = false;
       console.log("Track regeneration process complete");
     }
-  }, [isStarted, isPlaying, masterVolume, startContext, setupInstrument, trackSettings, startMeterMonitoring, setIsTrackGenerated, getContextId, resetContext]);
+  }, [isStarted, isPlaying, masterVolume, startContext, setupInstrument, arrangement, trackSettings, scheduleArrangement, schedulePatterns, clearPatterns, applySends, clearSends, startMeterMonitoring, setIsTrackGenerated, getContextId, resetContext]);
 
   // Load track state from session storage on initial load
   useEffect(() => {
@@ -287,7 +380,6 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       // Stop any playing audio first
       if (isPlaying) {
         setIsPlaying(false);
-        Tone.Transport.stop();
         Object.values(instrumentsRef.current).forEach(instrument => {
           if (instrument.player) {
             try {
@@ -298,6 +390,9 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
           }
         });
       }
+      // A paused Transport keeps its position; the new track starts from the top
+      Tone.Transport.stop();
+      setPosition(0);
       
       // Set the BPM
       Tone.Transport.bpm.value = settings.bpm;
@@ -308,7 +403,9 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       // Yield to UI before intensive operations
       await new Promise(resolve => setTimeout(resolve, 0));
       
-      // Clean up any existing players and nodes
+      // Clean up any existing parts, players and nodes
+      clearPatterns(instrumentsRef);
+      clearSends(instrumentsRef);
       Object.values(instrumentsRef.current).forEach(instrument => {
         if (instrument.player) {
           try {
@@ -319,6 +416,14 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
             console.warn(`Error disposing player for ${instrument.id}:`, err);
           }
         }
+        if (instrument.voice) {
+          try {
+            instrument.voice.dispose();
+            instrument.voice = null;
+          } catch (err) {
+            console.warn(`Error disposing voice for ${instrument.id}:`, err);
+          }
+        }
         if (instrument.volumeNode) {
           try {
             instrument.volumeNode.dispose();
@@ -336,12 +441,15 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
           }
         }
         
+        // Clear the sample choice so the new seed picks it
+        instrument.samplePath = null;
+        
         // Update loading state
         instrument.loadingState = 'loading';
       });
       
       // Update UI to show loading
-      setInstruments(prev => prev.map(i => ({ ...i, loadingState: 'loading', player: null, volumeNode: null, analyser: null })));
+      setInstruments(prev => prev.map(i => ({ ...i, loadingState: 'loading', player: null, volumeNode: null, sends: null, analyser: null })));
       
       const currentContextId = getContextId ? getContextId() : null;
       console.log("Generating track with context ID:", currentContextId);
@@ -361,11 +469,18 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
           masterVolume, 
           setInstruments,
           setError,
-          currentContextId
+          currentContextId,
+          partSeed(settings, instrumentId)
         );
         if (result) successCount++;
       }
       
+      // Follow the new arrangement's sections during playback
+      const newArrangement = generateArrangement(settings);
+      scheduleArrangement(newArrangement, instrumentsRef, loopRegionRef.current);
+      schedulePatterns(newArrangement, settings, instrumentsRef);
+      applySends(settings, instrumentsRef, masterVolume);
+      
       // Mark track as generated if at least one instrument loaded successfully
       if (successCount > 0) {
         setIsTrackGenerated(true);
@@ -395,8 +510,127 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       console.log("Track generation process complete");
       console.debug('[TRACK AUDIO] generate end');
     }
-  }, [isStarted, isPlaying, masterVolume, startContext, setTrackSettings, setupInstrument, startMeterMonitoring, setIsTrackGenerated, getContextId, resetContext]);
+  }, [isStarted, isPlaying, masterVolume, startContext, setTrackSettings, setupInstrument, scheduleArrangement, schedulePatterns, clearPatterns, applySends, clearSends, startMeterMonitoring, setIsTrackGenerated, getContextId, resetContext]);
 
+  // Re-roll one instrument with a fresh seed of its own: a new part for pattern instruments, a new
+  // sample choice for loops. Only that instrument is rebuilt; the Transport and the others play on.
+  const regenerateInstrument = useCallback(async (instrumentId: InstrumentType) => {
+    if (generationInProgressRef.current) {
+      console.log("Generation in progress, skipping instrument re-roll");
+      return;
+    }
+    
+    const instrument = instrumentsRef.current[instrumentId];
+    if (instrument.loadingState === 'loading') {
+      console.log(`${instrumentId} is already loading, skipping re-roll`);
+      return;
+    }
+    
+    const settings: TrackSettings = {
+      ...trackSettings,
+      partSeeds: { ...trackSettings.partSeeds, [instrumentId]: randomSeed() },
+    };
+    setTrackSettings(settings);
+    console.log(`Re-rolling ${instrumentId} with seed ${settings.partSeeds[instrumentId]}`);
+    
+    instrument.loadingState = 'loading';
+    setInstruments(prev => prev.map(i => 
+      i.id === instrumentId ? { ...i, loadingState: 'loading' } : i
+    ));
+    
+    // Yield to UI before intensive operations
+    await new Promise(resolve => setTimeout(resolve, 0));
+    
+    try {
+      // A pattern voice keeps playing; only the part it plays is replaced
+      if (instrument.source === 'pattern' && instrument.voice) {
+        schedulePattern(arrangement, settings, instrument);
+        instrument.loadingState = 'loaded';
+        setInstruments(prev => prev.map(i => 
+          i.id === instrumentId ? { ...i, loadingState: 'loaded' } : i
+        ));
+        return;
+      }
+      
+      // Tear down just this instrument's nodes
+      if (instrument.part) {
+        instrument.part.dispose();
+        instrument.part = null;
+      }
+      if (instrument.sends) {
+        instrument.sends.dispose();
+        instrument.sends = null;
+      }
+      if (instrument.player) {
+        unsyncLoop(instrumentId);
+        try {
+          instrument.player.stop();
+          instrument.player.dispose();
+        } catch (err) {
+          console.warn(`Error disposing player for ${instrumentId}:`, err);
+        }
+        instrument.player = null;
+      }
+      if (instrument.voice) {
+        instrument.voice.dispose();
+        instrument.voice = null;
+      }
+      if (instrument.volumeNode) {
+        instrument.volumeNode.dispose();
+        instrument.volumeNode = null;
+      }
+      if (instrument.analyser) {
+        instrument.analyser.dispose();
+        instrument.analyser = null;
+      }
+      
+      // Clear the sample choice so the new seed picks it
+      instrument.samplePath = null;
+      setInstruments(prev => prev.map(i => 
+        i.id === instrumentId ? { ...i, player: null, voice: null, volumeNode: null, sends: null, analyser: null, samplePath: null } : i
+      ));
+      
+      await setupInstrument(
+        instrumentId,
+        instrument,
+        masterVolume,
+        setInstruments,
+        setError,
+        getContextId ? getContextId() : null,
+        partSeed(settings, instrumentId)
+      );
+      
+      // Setup waits for the sample, so the loop can join the Transport below; a loop that
+      // failed to load plays its synthesized part instead
+      schedulePattern(arrangement, settings, instrument);
+      applyInstrumentSends(settings, instrument, masterVolume);
+      
+      // Stretch and shift the new loop to the tempo and key where the Transport is now
+      const player = instrument.player;
+      if (player && player.loaded && instrument.sampleTuning) {
+        tuneLoop({ player, tuning: instrument.sampleTuning }, arrangement, Tone.Transport.ticks / Tone.Transport.PPQ);
+      }
+      
+      // Put the loop on the Transport. A running track is joined at the next bar line, in phase
+      // with the other loops and gated like the section it joins.
+      if (player && player.loaded) {
+        const running = Tone.Transport.state === 'started';
+        const nextBar = running ? Math.floor(Tone.Transport.ticks / Tone.Transport.PPQ / arrangement.beatsPerBar) + 1 : 0;
+        const joinBar = nextBar < arrangement.totalBars ? nextBar : 0;
+        syncInstrumentLoop(arrangement, instrument, running ? joinBar * arrangement.beatsPerBar : 0);
+        const section = getSectionAtBar(arrangement, joinBar);
+        player.volume.value = section && !section.instruments[instrumentId] ? -Infinity : 0;
+      }
+    } catch (err) {
+      console.error(`Failed to re-roll ${instrumentId}:`, err);
+      instrument.loadingState = 'error';
+      setInstruments(prev => prev.map(i => 
+        i.id === instrumentId ? { ...i, loadingState: 'error' } : i
+      ));
+      setError(`Failed to re-roll ${instrument.name}. Please try again.`);
+    }
+  }, [trackSettings, arrangement, masterVolume, setTrackSettings, setupInstrument, schedulePattern, applyInstrumentSends, syncInstrumentLoop, unsyncLoop, getContextId]);
+  
   // Fixed toggle playback function with protection
   const togglePlayback = useCallback(async () => {
     console.debug('[TRACK AUDIO] toggle playback start');
@@ -443,6 +677,7 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
                 setError,
                 getContextId ? getContextId() : null
               );
+              syncInstrumentLoop(arrangement, instrument);
             } catch (err) {
               console.error(`Error recreating player for ${instrument.id}:`, err);
             }
@@ -474,40 +709,90 @@ export function useTrackAudio({ masterVolume, isStarted, startContext, getContex
       console.log("Playback operation complete");
       console.debug('[TRACK AUDIO] toggle playback end');
     }
-  }, [isPlaying, isStarted, masterVolume, startContext, resetContext, setupInstrument, getContextId, setInstruments]);
+  }, [isPlaying, isStarted, masterVolume, startContext, resetContext, setupInstrument, syncInstrumentLoop, arrangement, getContextId, setInstruments]);
+  
+  // Stop playback and return to the start of the track
+  const stop = useCallback(() => {
+    Tone.Transport.stop();
+    setIsPlaying(false);
+    setPosition(0);
+  }, []);
+  
+  // Move the playhead to a position in quarter notes; a playing track carries on from there
+  const seek = useCallback((time: number) => {
+    const end = arrangement.totalBars * arrangement.beatsPerBar;
+    const target = time >= end ? 0 : Math.max(0, time);
+    Tone.Transport.ticks = Math.round(target * Tone.Transport.PPQ);
+    setPosition(target);
+  }, [arrangement]);
+  
+  // Loop a region of bars, or the whole form (null); applies straight away
+  const setLoopRegion = useCallback((region: LoopRegion | null) => {
+    const clamped = clampLoopRegion(region, arrangement.totalBars);
+    loopRegionRef.current = clamped;
+    setLoopRegionState(clamped);
+    setTransportLoop(Tone.Transport, arrangement, clamped);
+  }, [arrangement]);
   
   // Wrapper for setInstrumentVolume to include instrumentsRef
   const setInstrumentVolume = useCallback((instrumentId: InstrumentType, volumeDb: number) => {
     setVolume(instrumentsRef, setInstruments, instrumentId, volumeDb);
   }, [setVolume]);
   
+  // Switch an instrument between its sample loop and the generated pattern; applies on the next generation
+  const setInstrumentSource = useCallback((instrumentId: InstrumentType, source: InstrumentSource) => {
+    instrumentsRef.current[instrumentId].source = source;
+    setInstruments(prev => prev.map(inst => 
+      inst.id === instrumentId ? { ...inst, source } : inst
+    ));
+  }, []);
+  
+  // Play an instrument's generated part with a multi-sample kit, or with its synth again (null);
+  // applies on the next generation
+  const setInstrumentKit = useCallback((instrumentId: InstrumentType, kit: SampleKit | null) => {
+    instrumentsRef.current[instrumentId].kit = kit;
+    if (kit) instrumentsRef.current[instrumentId].source = 'pattern';
+    setInstruments(prev => prev.map(inst => 
+      inst.id === instrumentId ? { ...inst, kit, source: kit ? 'pattern' : inst.source } : inst
+    ));
+  }, []);
+  
   // Wrapper for downloadTrack to include state
   const handleDownloadTrack = useCallback(async () => {
     console.debug('[TRACK AUDIO] download WAV start');
-    const result = await downloadTrack(isTrackGenerated, instrumentsRef, trackSettings);
+    const result = await downloadTrack(isTrackGenerated, instrumentsRef, trackSettings, arrangement);
     console.debug('[TRACK AUDIO] download WAV end');
     return result;
-  }, [downloadTrack, isTrackGenerated, trackSettings]);
+  }, [downloadTrack, isTrackGenerated, trackSettings, arrangement]);
   
   // Add handler for MIDI download
   const handleDownloadMidi = useCallback(() => {
     console.debug('[TRACK AUDIO] download MIDI start');
-    const result = downloadMidiTrack(isTrackGenerated, trackSettings);
+    const result = downloadMidiTrack(isTrackGenerated, trackSettings, arrangement);
     console.debug('[TRACK AUDIO] download MIDI end');
     return result;
-  }, [downloadMidiTrack, isTrackGenerated, trackSettings]);
+  }, [downloadMidiTrack, isTrackGenerated, trackSettings, arrangement]);
 
   return {
     instruments,
     isPlaying,
+    position,
+    loopRegion,
     isLoading,
     error,
     trackSettings,
+    arrangement,
     isTrackGenerated,
     masterMeterValue,
     generateTrack,
+    regenerateInstrument,
     togglePlayback,
+    stop,
+    seek,
+    setLoopRegion,
     setInstrumentVolume,
+    setInstrumentSource,
+    setInstrumentKit,
     setTrackSettings,
     downloadTrack: handleDownloadTrack,
     downloadMidi: handleDownloadMidi,
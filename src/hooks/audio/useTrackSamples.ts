@@ -1,8 +1,19 @@
 
 import { useCallback, useState, useEffect } from 'react';
 import { useSampleManager } from '../useSampleManager';
-import { InstrumentType } from './types';
+import { InstrumentType, SampleTuning } from './types';
 import { defaultSamples } from '@/audio/defaultSamples';
+import { createRng } from '@/lib/music/random';
+
+// A sample to loop and the tempo and key it was recorded in, when known
+export interface LoopSample {
+  url: string;
+  tuning: SampleTuning | null;
+}
+
+// Uploads tagged with neither a tempo nor a key play as recorded
+const uploadTuning = (sample: { bpm: number | null; key: string | null }): SampleTuning | null =>
+  sample.bpm || sample.key ? { bpm: sample.bpm, key: sample.key } : null;
 
 export function useTrackSamples() {
   const { getSamples, getSampleUrl } = useSampleManager();
@@ -15,8 +26,9 @@ export function useTrackSamples() {
     setSamplesLoaded(true);
   }, []);
 
-  // Get sample URL for an instrument type, preferring user uploads
-  const getSampleUrlForInstrument = useCallback(async (instrumentType: InstrumentType): Promise<string | null> => {
+  // Get the sample for an instrument type, preferring user uploads.
+  // With a seed the choice among uploads is reproducible, otherwise the latest upload wins.
+  const getSampleForInstrument = useCallback(async (instrumentType: InstrumentType, seed?: number): Promise<LoopSample | null> => {
     try {
       // Try to get user uploaded samples for this instrument
       const result = await getSamples();
@@ -27,6 +39,17 @@ export function useTrackSamples() {
           sample => sample.instrument_type === instrumentType
         );
         
+        if (instrumentSamples.length > 0 && seed !== undefined) {
+          // Sort by upload time so the seeded pick doesn't depend on query order
+          const ordered = [...instrumentSamples].sort((a, b) => 
+            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+          );
+          const chosen = createRng(seed).fork(`sample-${instrumentType}`).pick(ordered);
+          
+          console.log(`Using uploaded ${instrumentType} sample: ${chosen.name} (seed ${seed})`);
+          return { url: getSampleUrl(chosen.file_path), tuning: uploadTuning(chosen) };
+        }
+        
         if (instrumentSamples.length > 0) {
           // Use the most recently uploaded sample
           const latestSample = instrumentSamples.reduce((latest, current) => {
@@ -34,24 +57,24 @@ export function useTrackSamples() {
           }, instrumentSamples[0]);
           
           console.log(`Using uploaded ${instrumentType} sample: ${latestSample.name}`);
-          return getSampleUrl(latestSample.file_path);
+          return { url: getSampleUrl(latestSample.file_path), tuning: uploadTuning(latestSample) };
         }
       }
       
       // Fallback to default samples if no user samples found
       console.log(`No uploaded ${instrumentType} samples found, using default`);
-      return defaultSamples[instrumentType];
+      return defaultSamples[instrumentType] ?? null;
     } catch (err) {
       console.error(`Error getting ${instrumentType} sample:`, err);
       
       // Fallback to defaults if there's an error
       console.log(`Error occurred, fallback to default ${instrumentType} sample`);
-      return defaultSamples[instrumentType];
+      return defaultSamples[instrumentType] ?? null;
     }
   }, [getSamples, getSampleUrl]);
 
   return { 
-    getSampleUrlForInstrument,
+    getSampleForInstrument,
     samplesLoaded
   };
 }
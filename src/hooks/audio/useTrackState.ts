@@ -1,6 +1,13 @@
 
 import { useState, useEffect } from 'react';
 import { TrackSettings, InstrumentTrack } from './types';
+import { randomSeed } from '@/lib/music/random';
+import { DEFAULT_GROOVE } from '@/lib/music/groove';
+import { DEFAULT_TEMPO } from '@/lib/music/tempo';
+import { DEFAULT_MODULATION } from '@/lib/music/modulation';
+import { DEFAULT_LOCKS } from '@/lib/music/locks';
+import { DEFAULT_REHARMONIZATION } from '@/lib/music/reharmonize';
+import { DEFAULT_HARMONIC_RHYTHM } from '@/lib/music/progressions';
 
 // Key for storing track state in session storage
 const TRACK_STATE_KEY = 'trackAlchemyState';
@@ -15,7 +22,20 @@ export function useTrackState(
     mood: 'energetic',
     bpm: 120,
     key: 'C',
+    mode: 'major',
     duration: 16, // in bars
+    seed: randomSeed(),
+    melody: false,
+    timeSignature: '4/4',
+    groove: DEFAULT_GROOVE,
+    tempo: DEFAULT_TEMPO,
+    modulation: DEFAULT_MODULATION,
+    chordStyle: 'genre',
+    reharmonization: DEFAULT_REHARMONIZATION,
+    harmonicRhythm: DEFAULT_HARMONIC_RHYTHM,
+    progression: null,
+    locks: DEFAULT_LOCKS,
+    partSeeds: {},
   });
   
   const [isTrackGenerated, setIsTrackGenerated] = useState(false);
@@ -32,6 +52,9 @@ export function useTrackState(
             {
               volume: inst.volume,
               samplePath: inst.samplePath,
+              sampleTuning: inst.sampleTuning,
+              source: inst.source,
+              kit: inst.kit,
             }
           ])
         )
@@ -42,14 +65,15 @@ export function useTrackState(
   }, [trackSettings, isTrackGenerated, instrumentsRef]);
   
   // Load track state from session storage
-  const loadSavedState = async (isStarted: boolean, regenerateTrackCallback: () => Promise<void>) => {
+  const loadSavedState = async (isStarted: boolean, regenerateTrackCallback: (settings: TrackSettings) => Promise<void>) => {
     try {
       const savedState = sessionStorage.getItem(TRACK_STATE_KEY);
       if (savedState) {
         const parsedState = JSON.parse(savedState);
         
-        // Restore track settings
-        setTrackSettings(parsedState.trackSettings);
+        // Restore track settings, keeping defaults for fields older sessions didn't save
+        const restoredSettings: TrackSettings = { ...trackSettings, ...parsedState.trackSettings };
+        setTrackSettings(restoredSettings);
         
         // Set flag that track was generated before
         if (parsedState.isTrackGenerated) {
@@ -61,6 +85,9 @@ export function useTrackState(
           if (instrumentsRef.current[id as any]) {
             instrumentsRef.current[id as any].volume = data.volume;
             instrumentsRef.current[id as any].samplePath = data.samplePath;
+            instrumentsRef.current[id].sampleTuning = data.sampleTuning ?? null;
+            if (data.source) instrumentsRef.current[id].source = data.source;
+            instrumentsRef.current[id].kit = data.kit ?? null;
             instrumentsRef.current[id as any].loadingState = 'idle'; // Will be reloaded
             
             // Update the instruments state with volume changes
@@ -69,6 +96,9 @@ export function useTrackState(
                 ...inst, 
                 volume: data.volume, 
                 samplePath: data.samplePath, 
+                sampleTuning: data.sampleTuning ?? null,
+                source: data.source || inst.source,
+                kit: data.kit ?? null,
                 loadingState: 'idle'
               } : inst
             ));
@@ -80,7 +110,7 @@ export function useTrackState(
         // If there was a track generated before, automatically reload samples
         if (parsedState.isTrackGenerated && isStarted) {
           console.log("Automatically reloading saved track");
-          await regenerateTrackCallback();
+          await regenerateTrackCallback(restoredSettings);
         }
       }
     } catch (err) {
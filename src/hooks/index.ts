@@ -5,4 +5,6 @@ export { useSampleManager } from './useSampleManager';
 export { useMidiExporter } from './audio/useMidiExporter';
 export { useAudioMeter } from './audio/useAudioMeter';
 export { useTrackSamples } from './audio/useTrackSamples';
+export { useGenres } from './useGenres';
+export { useStyleProfile } from './useStyleProfile';
 export type { InstrumentType, TrackSettings } from './audio/types';
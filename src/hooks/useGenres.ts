@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { listGenres, parseGenre, registerGenre, subscribeGenres, type GenreDefinition } from '@/lib/music/genres';
+
+const CUSTOM_GENRES_KEY = 'trackAlchemy_custom_genres';
+
+// Imported genres are kept as their source JSON and validated again on every load
+const readStoredGenres = (): unknown[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_GENRES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.warn('Could not read imported genres:', err);
+    return [];
+  }
+};
+
+const storeGenre = (data: unknown, id: string) => {
+  const others = readStoredGenres().filter(stored => (stored as { id?: string })?.id !== id);
+  localStorage.setItem(CUSTOM_GENRES_KEY, JSON.stringify([...others, data]));
+};
+
+let storedGenresLoaded = false;
+
+export function useGenres() {
+  const genres = useSyncExternalStore(subscribeGenres, listGenres);
+
+  // Register genres imported in earlier sessions
+  useEffect(() => {
+    if (storedGenresLoaded) return;
+    storedGenresLoaded = true;
+    readStoredGenres().forEach(data => {
+      const parsed = parseGenre(data);
+      if ('error' in parsed) {
+        console.warn('Skipping invalid imported genre:', parsed.error);
+        return;
+      }
+      registerGenre(parsed.genre);
+    });
+  }, []);
+
+  // Validate and register a genre from a user's JSON file
+  const importGenre = useCallback(async (file: File): Promise<{ genre: GenreDefinition } | { error: string }> => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      return { error: `${file.name} is not valid JSON` };
+    }
+
+    const parsed = parseGenre(data);
+    if ('error' in parsed) return parsed;
+    if (!registerGenre(parsed.genre)) {
+      return { error: `"${parsed.genre.id}" is a built-in genre and can't be replaced` };
+    }
+
+    try {
+      storeGenre(data, parsed.genre.id);
+    } catch (err) {
+      console.warn('Could not save imported genre:', err);
+    }
+    return parsed;
+  }, []);
+
+  return {
+    genres,
+    importGenre
+  };
+}
@@ -11,8 +11,36 @@ interface Sample {
   instrument_type: InstrumentType;
   file_path: string;
   created_at: string;
+  bpm: number | null;  // Tempo the sample was recorded at, when known
+  key: string | null;  // Key like "A" or "F#m"; empty for unpitched samples
 }
 
+// Tempo and key entered for a sample; either may be unknown
+export type SampleTags = Pick<Sample, 'bpm' | 'key'>;
+
+// A one-shot of a kit: the MIDI note it was recorded at (the General MIDI note for drum hits)
+// and the softest velocity it plays for
+export interface OneShot {
+  id: string;
+  name: string;
+  file_path: string;
+  root_note: number | null;
+  velocity_layer: number;
+}
+
+export type OneShotZone = { root: number | null; velocity: number };
+
+// A multi-sample instrument built from one-shots
+export interface Kit {
+  id: string;
+  name: string;
+  instrument_type: InstrumentType;
+  samples: OneShot[];
+}
+
+// Unique storage name for an uploaded file
+const storageName = (file: File) => `${Date.now()}-${file.name.replace(/\s+/g, '_')}`;
+
 export function useSampleManager() {
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -66,7 +94,7 @@ export function useSampleManager() {
     initializeBucket();
   }, []);
 
-  const uploadSample = useCallback(async (file: File, instrumentType: InstrumentType) => {
+  const uploadSample = useCallback(async (file: File, instrumentType: InstrumentType, tags: SampleTags = { bpm: null, key: null }) => {
     try {
       setIsUploading(true);
       setError(null);
@@ -76,7 +104,7 @@ export function useSampleManager() {
       }
 
       // Make sure file has a unique name
-      const fileName = `${Date.now()}-${file.name.replace(/\s+/g, '_')}`;
+      const fileName = storageName(file);
       
       // Upload file to storage
       const { error: uploadError, data } = await supabase.storage
@@ -92,6 +120,8 @@ export function useSampleManager() {
           name: file.name,
           instrument_type: instrumentType,
           file_path: fileName,
+          bpm: tags.bpm,
+          key: tags.key,
         });
 
       if (dbError) throw dbError;
@@ -107,6 +137,143 @@ export function useSampleManager() {
     }
   }, [isBucketInitialized]);
 
+  // Change the tempo and key a sample is tagged with
+  const tagSample = useCallback(async (id: string, tags: SampleTags) => {
+    try {
+      setError(null);
+      const { error: dbError } = await supabase
+        .from('samples')
+        .update({ bpm: tags.bpm, key: tags.key })
+        .eq('id', id);
+
+      if (dbError) throw dbError;
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update sample';
+      setError(message);
+      return { success: false, error: message };
+    }
+  }, []);
+
+  // Add a one-shot to a kit
+  const uploadOneShot = useCallback(async (file: File, kit: Pick<Kit, 'id' | 'instrument_type'>, zone: OneShotZone) => {
+    try {
+      setIsUploading(true);
+      setError(null);
+
+      if (!isBucketInitialized) {
+        throw new Error('Storage not initialized yet. Please try again.');
+      }
+
+      const fileName = storageName(file);
+      const { error: uploadError } = await supabase.storage
+        .from('audio_samples')
+        .upload(fileName, file);
+
+      if (uploadError) throw uploadError;
+
+      const { error: dbError } = await supabase
+        .from('samples')
+        .insert({
+          name: file.name,
+          instrument_type: kit.instrument_type,
+          file_path: fileName,
+          kit_id: kit.id,
+          root_note: zone.root,
+          velocity_layer: zone.velocity,
+        });
+
+      if (dbError) throw dbError;
+
+      return { success: true };
+    } catch (err) {
+      console.error('Upload error:', err);
+      const message = err instanceof Error ? err.message : 'Failed to upload one-shot';
+      setError(message);
+      return { success: false, error: message };
+    } finally {
+      setIsUploading(false);
+    }
+  }, [isBucketInitialized]);
+
+  // Change the note and velocity layer a one-shot plays for
+  const updateOneShot = useCallback(async (id: string, zone: OneShotZone) => {
+    try {
+      setError(null);
+      const { error: dbError } = await supabase
+        .from('samples')
+        .update({ root_note: zone.root, velocity_layer: zone.velocity })
+        .eq('id', id);
+
+      if (dbError) throw dbError;
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update one-shot';
+      setError(message);
+      return { success: false, error: message };
+    }
+  }, []);
+
+  const createKit = useCallback(async (name: string, instrumentType: InstrumentType) => {
+    try {
+      setError(null);
+      const { error: dbError } = await supabase
+        .from('sample_kits')
+        .insert({ name, instrument_type: instrumentType });
+
+      if (dbError) throw dbError;
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create kit';
+      setError(message);
+      return { success: false, error: message };
+    }
+  }, []);
+
+  // Delete a kit with its one-shots; their rows go with the kit's
+  const deleteKit = useCallback(async (kit: Kit) => {
+    try {
+      setError(null);
+
+      if (kit.samples.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from('audio_samples')
+          .remove(kit.samples.map(sample => sample.file_path));
+
+        if (storageError) throw storageError;
+      }
+
+      const { error: dbError } = await supabase
+        .from('sample_kits')
+        .delete()
+        .eq('id', kit.id);
+
+      if (dbError) throw dbError;
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to delete kit';
+      setError(message);
+      return { success: false, error: message };
+    }
+  }, []);
+
+  const getKits = useCallback(async (): Promise<{ success: boolean; error?: string; data: Kit[] }> => {
+    try {
+      setError(null);
+      const { data, error } = await supabase
+        .from('sample_kits')
+        .select('id, name, instrument_type, samples(id, name, file_path, root_note, velocity_layer)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return { success: true, data: data ?? [] };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch kits';
+      setError(message);
+      return { success: false, error: message, data: [] };
+    }
+  }, []);
+
   const deleteSample = useCallback(async (id: string, filePath: string) => {
     try {
       setError(null);
@@ -134,12 +301,14 @@ export function useSampleManager() {
     }
   }, []);
 
+  // Loops: the samples that aren't one-shots of a kit
   const getSamples = useCallback(async () => {
     try {
       setError(null);
       const { data, error } = await supabase
         .from('samples')
         .select('*')
+        .is('kit_id', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -161,9 +330,15 @@ export function useSampleManager() {
 
   return {
     uploadSample,
+    tagSample,
     deleteSample,
     getSamples,
     getSampleUrl,
+    uploadOneShot,
+    updateOneShot,
+    createKit,
+    deleteKit,
+    getKits,
     isUploading,
     error,
     isBucketInitialized
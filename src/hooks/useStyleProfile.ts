@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { z } from 'zod';
+import { getPersonalStyle, setPersonalStyle, subscribePersonalStyle, type StyleSourceFile } from '@/lib/music/personalStyle';
+import { parseMidiFile } from '@/lib/music/midiFile';
+import { phrasesFromMidi } from '@/lib/music/midiStyle';
+
+const STYLE_PROFILE_KEY = 'trackAlchemy_style_profile';
+
+// Only the phrases learned from each file are kept, not the MIDI itself
+const storedFilesSchema = z.array(z.object({
+  name: z.string(),
+  phrases: z.array(z.object({
+    degrees: z.array(z.number().int().min(0).max(6)).min(1),
+    rhythm: z.array(z.number().int().positive()).min(1), // Chord slots
+  })),
+}));
+
+const readStoredFiles = (): StyleSourceFile[] => {
+  try {
+    const stored = localStorage.getItem(STYLE_PROFILE_KEY);
+    const parsed = storedFilesSchema.safeParse(stored ? JSON.parse(stored) : []);
+    if (parsed.success) return parsed.data as StyleSourceFile[];
+    console.warn('Skipping invalid style profile:', parsed.error.message);
+  } catch (err) {
+    console.warn('Could not read style profile:', err);
+  }
+  return [];
+};
+
+const storeFiles = (files: StyleSourceFile[]) => {
+  try {
+    localStorage.setItem(STYLE_PROFILE_KEY, JSON.stringify(files));
+  } catch (err) {
+    console.warn('Could not save style profile:', err);
+  }
+};
+
+let storedProfileLoaded = false;
+
+export function useStyleProfile() {
+  const profile = useSyncExternalStore(subscribePersonalStyle, getPersonalStyle);
+
+  // Restore the profile built in earlier sessions
+  useEffect(() => {
+    if (storedProfileLoaded) return;
+    storedProfileLoaded = true;
+    setPersonalStyle(readStoredFiles());
+  }, []);
+
+  // Learn the chords of a MIDI file; importing a file with the same name again replaces it
+  const importMidi = useCallback(async (file: File): Promise<{ phrases: number } | { error: string }> => {
+    let phrases: StyleSourceFile['phrases'];
+    try {
+      phrases = phrasesFromMidi(parseMidiFile(await file.arrayBuffer()));
+    } catch (err) {
+      return { error: `${file.name}: ${err instanceof Error ? err.message : 'could not be read'}` };
+    }
+
+    const files = [...getPersonalStyle().files.filter(stored => stored.name !== file.name), { name: file.name, phrases }];
+    setPersonalStyle(files);
+    storeFiles(files);
+    return { phrases: phrases.length };
+  }, []);
+
+  const removeFile = useCallback((name: string) => {
+    const files = getPersonalStyle().files.filter(stored => stored.name !== name);
+    setPersonalStyle(files);
+    storeFiles(files);
+  }, []);
+
+  return {
+    profile,
+    importMidi,
+    removeFile
+  };
+}
@@ -9,32 +9,79 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      sample_kits: {
+        Row: {
+          created_at: string
+          id: string
+          instrument_type: Database["public"]["Enums"]["instrument_type"]
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          instrument_type: Database["public"]["Enums"]["instrument_type"]
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          instrument_type?: Database["public"]["Enums"]["instrument_type"]
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       samples: {
         Row: {
+          bpm: number | null
           created_at: string
           file_path: string
           id: string
           instrument_type: Database["public"]["Enums"]["instrument_type"]
+          key: string | null
+          kit_id: string | null
           name: string
+          root_note: number | null
           updated_at: string
+          velocity_layer: number
         }
         Insert: {
+          bpm?: number | null
           created_at?: string
           file_path: string
           id?: string
           instrument_type: Database["public"]["Enums"]["instrument_type"]
+          key?: string | null
+          kit_id?: string | null
           name: string
+          root_note?: number | null
           updated_at?: string
+          velocity_layer?: number
         }
         Update: {
+          bpm?: number | null
           created_at?: string
           file_path?: string
           id?: string
           instrument_type?: Database["public"]["Enums"]["instrument_type"]
+          key?: string | null
+          kit_id?: string | null
           name?: string
+          root_note?: number | null
           updated_at?: string
+          velocity_layer?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "samples_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "sample_kits"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
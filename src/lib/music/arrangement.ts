@@ -0,0 +1,214 @@
+import type { InstrumentType, TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, ChordSlot, NoteEvent, Phrase, Section, SectionName, SlotPiece } from './types';
+import { createRng, type Rng } from './random';
+import { BRIDGE_PROGRESSIONS, chordsPerBar, editedChords, phraseChords, pickProgression, progressionBars, pushChords } from './progressions';
+import { getMeter } from './meter';
+import { buildTempoMap } from './tempo';
+import { sectionKeys } from './modulation';
+import { getMoodProfile, type MoodProfile } from './moods';
+import { getGenre, type GenreDefinition } from './genres';
+import { getPersonalStyle, type PersonalStyle } from './personalStyle';
+import { reharmonize } from './reharmonize';
+
+export const INSTRUMENT_IDS: InstrumentType[] = ['drums', 'bass', 'guitar', 'keys', 'melody'];
+
+// Song forms by total length in bars. When a track length has no exact form,
+// the longest shorter form is used and its last section is stretched.
+const FORMS: Record<number, [SectionName, number][][]> = {
+  8: [
+    [['verse', 4], ['chorus', 4]],
+  ],
+  16: [
+    [['intro', 4], ['verse', 4], ['chorus', 4], ['outro', 4]],
+    [['verse', 4], ['chorus', 4], ['verse', 4], ['chorus', 4]],
+  ],
+  24: [
+    [['intro', 4], ['verse', 8], ['chorus', 8], ['outro', 4]],
+  ],
+  32: [
+    [['intro', 4], ['verse', 8], ['chorus', 8], ['bridge', 4], ['chorus', 4], ['outro', 4]],
+    [['intro', 4], ['verse', 8], ['chorus', 8], ['verse', 4], ['chorus', 8]],
+  ],
+  48: [
+    [['intro', 4], ['verse', 8], ['chorus', 8], ['verse', 8], ['chorus', 8], ['bridge', 4], ['chorus', 4], ['outro', 4]],
+  ],
+  64: [
+    [['intro', 4], ['verse', 8], ['chorus', 8], ['verse', 8], ['chorus', 8], ['bridge', 8], ['chorus', 8], ['chorus', 8], ['outro', 4]],
+  ],
+};
+
+export const TRACK_LENGTHS = Object.keys(FORMS).map(Number);
+
+// Default energy and the chance each instrument plays in a section
+const SECTION_PROFILES: Record<SectionName, { density: number; instruments: Record<InstrumentType, number> }> = {
+  intro:  { density: 0.4,  instruments: { drums: 0.3, bass: 0.5, guitar: 0.7, keys: 1, melody: 0.2 } },
+  verse:  { density: 0.6,  instruments: { drums: 1, bass: 1, guitar: 0.6, keys: 0.8, melody: 0.9 } },
+  chorus: { density: 0.9,  instruments: { drums: 1, bass: 1, guitar: 1, keys: 1, melody: 1 } },
+  bridge: { density: 0.5,  instruments: { drums: 0.6, bass: 1, guitar: 0.5, keys: 1, melody: 0.6 } },
+  outro:  { density: 0.35, instruments: { drums: 0.4, bass: 0.8, guitar: 0.6, keys: 1, melody: 0.3 } },
+};
+
+const SECTION_LABELS: Record<SectionName, string> = {
+  intro: 'Intro',
+  verse: 'Verse',
+  chorus: 'Chorus',
+  bridge: 'Bridge',
+  outro: 'Outro',
+};
+
+// Pick a form for the requested length
+const buildForm = (totalBars: number, rng: Rng): [SectionName, number][] => {
+  const lengths = TRACK_LENGTHS.filter(length => length <= totalBars);
+  if (lengths.length === 0) {
+    return [['verse', Math.max(1, totalBars)]];
+  }
+
+  const form = rng.pick(FORMS[Math.max(...lengths)]).map(([name, bars]) => [name, bars] as [SectionName, number]);
+  const formBars = form.reduce((sum, [, bars]) => sum + bars, 0);
+  form[form.length - 1][1] += totalBars - formBars;
+  return form;
+};
+
+// Progression for each kind of section. Sections with the same
+// name share a progression so repeated choruses sound like the same chorus.
+const buildSectionProgressions = (settings: TrackSettings, rng: Rng, personalStyle: PersonalStyle): Record<SectionName, Phrase> => {
+  const verse = pickProgression(settings, rng.fork('verse'), personalStyle);
+  const chorus = pickProgression(settings, rng.fork('chorus'), personalStyle);
+  const bridge = rng.fork('bridge').pick(BRIDGE_PROGRESSIONS);
+  const held = Math.max(1, chorus.degrees.length - 1);
+
+  return {
+    intro: { degrees: verse.degrees.slice(0, 2), rhythm: verse.rhythm.slice(0, 2) },
+    verse,
+    chorus,
+    bridge,
+    // End the outro on the tonic
+    outro: {
+      degrees: [...chorus.degrees.slice(0, held), 0],
+      rhythm: [...chorus.rhythm.slice(0, held), chorus.rhythm[chorus.rhythm.length - 1]],
+    },
+  };
+};
+
+// Decide which instruments play, making sure at least one does.
+// The genre and mood make some instruments more or less likely; the melody only plays when the track asks for one.
+const pickInstruments = (name: SectionName, melody: boolean, mood: MoodProfile, genre: GenreDefinition, rng: Rng): Record<InstrumentType, boolean> => {
+  const chances = SECTION_PROFILES[name].instruments;
+  const weight = (id: InstrumentType) => (mood.instruments[id] ?? 1) * (genre.instruments[id] ?? 1);
+  const active = Object.fromEntries(
+    INSTRUMENT_IDS.map(id => [id, rng.chance(Math.min(1, chances[id] * weight(id)))])
+  ) as Record<InstrumentType, boolean>;
+  active.melody = active.melody && melody;
+
+  if (!INSTRUMENT_IDS.some(id => active[id])) {
+    active.keys = true;
+  }
+  return active;
+};
+
+// Split the track into named sections, each with its own chords, density and instrumentation.
+// Chords in the personal style come from the style learned so far unless one is passed in.
+export const generateArrangement = (settings: TrackSettings, personalStyle: PersonalStyle = getPersonalStyle()): Arrangement => {
+  const rng = createRng(settings.seed).fork('arrangement');
+  const meter = getMeter(settings.timeSignature);
+  const beatsPerBar = meter.quartersPerBar;
+  // An edited progression sets the length of the track
+  const edited = settings.progression?.length ? settings.progression : null;
+  const totalBars = Math.max(1, edited ? Math.ceil(progressionBars(edited) - 1e-6) : Math.round(settings.duration));
+  const mood = getMoodProfile(settings.mood);
+  const genre = getGenre(settings.genre);
+  const slotLength = beatsPerBar / chordsPerBar(settings);
+
+  const form = buildForm(totalBars, rng.fork('form'));
+  const progressions = buildSectionProgressions(settings, rng.fork('progressions'), personalStyle);
+  const keys = sectionKeys(form.map(([name]) => name), settings);
+
+  // Count repeats so labels can be numbered ("Verse 1", "Verse 2")
+  const totals = form.reduce<Partial<Record<SectionName, number>>>((counts, [name]) => {
+    counts[name] = (counts[name] || 0) + 1;
+    return counts;
+  }, {});
+  const seen: Partial<Record<SectionName, number>> = {};
+
+  let startBar = 0;
+  const sections: Section[] = form.map(([name, bars], index) => {
+    seen[name] = (seen[name] || 0) + 1;
+    const sectionRng = rng.fork(`section-${index}`);
+
+    // Chords at the track's harmonic rhythm, cycling the section's progression in the section's own key,
+    // unless the user has edited the progression
+    const { key, mode } = keys[index];
+    const sectionStart = startBar * beatsPerBar;
+    const sectionEnd = (startBar + bars) * beatsPerBar;
+    const progression: ChordSlot[] = edited
+      ? editedChords(edited, beatsPerBar, sectionStart, sectionEnd, key, mode)
+      : phraseChords(key, mode, progressions[name], sectionStart, sectionEnd, slotLength);
+    // Sections with the same name are reharmonized alike
+    const reharmonized = reharmonize(progression, key, mode, settings.reharmonization, mood.tension, rng.fork(`reharmonization-${name}`));
+    const chords = settings.harmonicRhythm.push ? pushChords(reharmonized, beatsPerBar) : reharmonized;
+
+    const section: Section = {
+      name,
+      label: totals[name] > 1 ? `${SECTION_LABELS[name]} ${seen[name]}` : SECTION_LABELS[name],
+      startBar,
+      bars,
+      key,
+      mode,
+      chords,
+      density: Math.min(1, Math.max(0.1, SECTION_PROFILES[name].density + mood.density + (sectionRng.next() - 0.5) * 0.1)),
+      instruments: pickInstruments(name, settings.melody, mood, genre, sectionRng.fork('instruments')),
+    };
+    startBar += bars;
+    return section;
+  });
+
+  return {
+    sections,
+    totalBars,
+    beatsPerBar,
+    timeSignature: meter.signature,
+    tempoMap: buildTempoMap(sections, beatsPerBar, settings.bpm, settings.tempo),
+  };
+};
+
+// Section containing a given bar
+export const getSectionAtBar = (arrangement: Arrangement, bar: number): Section | undefined =>
+  arrangement.sections.find(section => bar >= section.startBar && bar < section.startBar + section.bars);
+
+// Cut a chord slot at bar lines
+export const slotPieces = (slot: ChordSlot, beatsPerBar: number): SlotPiece[] => {
+  const pieces: SlotPiece[] = [];
+  const end = slot.time + slot.duration;
+  let time = slot.time;
+  while (time < end - 1e-6) {
+    const barStart = Math.floor(time / beatsPerBar + 1e-6) * beatsPerBar;
+    const pieceEnd = Math.min(end, barStart + beatsPerBar);
+    pieces.push({ slot: { chord: slot.chord, time, duration: pieceEnd - time }, barOffset: time - barStart, last: false });
+    time = pieceEnd;
+  }
+  if (pieces.length > 0) pieces[pieces.length - 1].last = true;
+  return pieces;
+};
+
+// A pushed chord as if it arrived on its beat. Parts play their rhythm over this slot and then
+// move the notes on the beat early with `anticipate`, so the push sounds in every style.
+export const onBeatSlot = (slot: ChordSlot): ChordSlot =>
+  slot.push ? { chord: slot.chord, time: slot.time + slot.push, duration: slot.duration - slot.push } : slot;
+
+// Notes starting within a sixteenth of the beat (strummed strings spread a little) belong to it
+const ON_BEAT_WINDOW = 0.25;
+
+// Start a pushed chord's notes on the beat early, held on into the beat
+export const anticipate = (notes: NoteEvent[], slot: ChordSlot): NoteEvent[] => {
+  const { push } = slot;
+  if (!push) return notes;
+  const beat = slot.time + push;
+  return notes.map(note => (note.time >= beat - 1e-6 && note.time < beat + ON_BEAT_WINDOW - 1e-6
+    ? { ...note, time: note.time - push, duration: note.duration + push }
+    : note));
+};
+
+// Chord sounding at a time within a section
+export const chordAt = (section: Section, time: number): ChordSlot =>
+  section.chords.find(slot => time >= slot.time - 1e-6 && time < slot.time + slot.duration - 1e-6)
+  ?? section.chords[section.chords.length - 1];
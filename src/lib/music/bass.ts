@@ -0,0 +1,183 @@
+import type { TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, ChordSlot, NoteEvent, Section } from './types';
+import type { Rng } from './random';
+import { chordToMidi } from './theory';
+import { anticipate, onBeatSlot, slotPieces } from './arrangement';
+import { getMeter, pulseLength, type Meter } from './meter';
+import { getGenre, type GenreDefinition } from './genres';
+
+// Playable range of a four-string bass: E1 to G3
+export const BASS_LOW = 28;
+export const BASS_HIGH = 55;
+
+// Note choices inside a rhythm cell:
+// R root, 5 fifth, 3 third, 8 octave above the root, A chromatic approach to the next chord's root
+export type BassDegree = 'R' | '5' | '3' | '8' | 'A';
+
+// [offset in beats, length in beats, note]; genres define their cells for one 4/4 bar
+type BassCell = [number, number, BassDegree][];
+
+interface BassContext {
+  slot: ChordSlot;                // The chord, cut to one bar
+  barOffset: number;              // Where the slot starts within the bar
+  next: ChordSlot | undefined;
+  section: Section;
+  previous: number | null; // Last note played, for smooth lines
+  meter: Meter;
+  rng: Rng;
+}
+
+type BassStyle = (context: BassContext) => NoteEvent[];
+
+// Fold a note into the bass range, keeping its pitch class
+const fitRegister = (midi: number): number => {
+  let note = midi;
+  while (note < BASS_LOW) note += 12;
+  while (note > BASS_HIGH) note -= 12;
+  return note;
+};
+
+// The octave of a pitch closest to a reference note, kept inside the bass range
+const nearest = (midi: number, reference: number | null): number => {
+  const base = fitRegister(midi);
+  if (reference === null) return base;
+  const candidates = [base - 12, base, base + 12].filter(note => note >= BASS_LOW && note <= BASS_HIGH);
+  return candidates.reduce((best, note) => (Math.abs(note - reference) < Math.abs(best - reference) ? note : best), base);
+};
+
+const chordRoot = (slot: ChordSlot): number => fitRegister(chordToMidi(slot.chord, 2)[0]);
+
+// Chromatic approach from a half step above or below the target
+const approachTone = (target: number, rng: Rng): number => {
+  const below = target - 1;
+  const above = target + 1;
+  if (below < BASS_LOW) return above;
+  if (above > BASS_HIGH) return below;
+  return rng.chance(0.6) ? below : above;
+};
+
+const sectionVelocity = (section: Section) => 0.65 + section.density * 0.3;
+
+// Play the part of a one-bar rhythm cell that falls under a chord
+const playCell = (cell: BassCell, { slot, barOffset, next, section, previous, rng }: BassContext): NoteEvent[] => {
+  const [root, third, fifth] = chordToMidi(slot.chord, 2).map(fitRegister);
+  const low = chordRoot(slot);
+  const velocity = sectionVelocity(section);
+  const notes: NoteEvent[] = [];
+  let last = previous;
+
+  cell.forEach(([cellOffset, cellLength, degree]) => {
+    // A note still ringing when the chord changes mid-bar is played again on the new chord
+    const ringing = cellOffset < barOffset && cellOffset + cellLength > barOffset + 1e-6;
+    const offset = ringing ? 0 : cellOffset - barOffset;
+    const length = ringing ? cellOffset + cellLength - barOffset : cellLength;
+    if (offset < 0 || offset >= slot.duration) return;
+    let midi: number;
+    switch (degree) {
+      case 'R': midi = low; break;
+      case '3': midi = nearest(third, low); break;
+      case '5': midi = nearest(fifth, low); break;
+      case '8': midi = low + 12 <= BASS_HIGH ? low + 12 : low; break;
+      case 'A': midi = next ? approachTone(nearest(chordRoot(next), last), rng) : root; break;
+    }
+    notes.push({
+      time: slot.time + offset,
+      duration: Math.min(length, slot.duration - offset),
+      midi,
+      velocity: offset === 0 ? velocity : velocity * 0.85,
+    });
+    last = midi;
+  });
+  return notes;
+};
+
+// Walking line on the pulse: root on the downbeat, chord tones in between,
+// and a chromatic approach into the next chord on the last pulse
+const walkingBass: BassStyle = ({ slot, barOffset, next, section, previous, meter, rng }) => {
+  const tones = chordToMidi(slot.chord, 2).map(fitRegister);
+  const velocity = sectionVelocity(section);
+  const notes: NoteEvent[] = [];
+
+  // Sparse sections only walk on the strong pulses (a two-feel in 4/4)
+  const positions = (section.density < 0.4 ? meter.strongPulses : meter.pulses)
+    .map(pulse => pulse - barOffset)
+    .filter(pulse => pulse >= 0 && pulse < slot.duration);
+  let last = previous === null ? chordRoot(slot) : nearest(tones[0], previous);
+
+  positions.forEach((pulse, i) => {
+    const end = positions[i + 1] ?? slot.duration;
+    let midi: number;
+    if (i === 0) {
+      midi = last;
+    } else if (i === positions.length - 1 && next) {
+      midi = approachTone(nearest(chordRoot(next), last), rng);
+    } else {
+      // Step to another chord tone near the previous note
+      const options = tones.slice(1).concat(tones[0] + 12).map(tone => nearest(tone, last)).filter(tone => tone !== last);
+      midi = options.length > 0 ? rng.pick(options) : last;
+    }
+    notes.push({ time: slot.time + pulse, duration: end - pulse, midi, velocity: i === 0 ? velocity : velocity * 0.85 });
+    last = midi;
+  });
+  return notes;
+};
+
+// Cell for meters other than 4/4: root on the downbeat, fifths on the other strong pulses
+// and, in busy sections, every pulse with an approach tone at the end of the bar
+const meterCell = (meter: Meter, busy: boolean): BassCell => {
+  const positions = busy ? meter.pulses : meter.strongPulses;
+  return positions.map((pulse, i) => {
+    const length = busy ? pulseLength(meter, i) : (positions[i + 1] ?? meter.quartersPerBar) - pulse;
+    const degree: BassDegree = i === 0 ? 'R'
+      : busy && i === positions.length - 1 ? 'A'
+      : meter.strongPulses.includes(pulse) ? '5'
+      : 'R';
+    return [pulse, length, degree];
+  });
+};
+
+// Pick one cell per section, sparser cells for quieter sections
+const cellStyle = (cells: BassCell[]) => (section: Section, rng: Rng, meter: Meter): BassStyle => {
+  const sparse = section.density < 0.45;
+  const cell = meter.signature !== '4/4'
+    ? meterCell(meter, !sparse)
+    : sparse ? cells[0] : rng.pick(cells.slice(1).length > 0 ? cells.slice(1) : cells);
+  return context => playCell(cell, context);
+};
+
+// A genre plays either its rhythm cells or a walking line
+const genreStyle = (bass: GenreDefinition['bass']): ((section: Section, rng: Rng, meter: Meter) => BassStyle) =>
+  bass.style === 'walking' ? () => walkingBass : cellStyle(bass.cells);
+
+// Generate the bass part for the whole arrangement, following each chord
+export const generateBassPart = (arrangement: Arrangement, settings: TrackSettings, rng: Rng): NoteEvent[] => {
+  const styleFor = genreStyle(getGenre(settings.genre).bass);
+  const meter = getMeter(arrangement.timeSignature);
+  // All chords in order, so lines can lead into the next section's first chord
+  const slots = arrangement.sections.flatMap(section => section.chords);
+  const events: NoteEvent[] = [];
+  let previous: number | null = null;
+
+  arrangement.sections.forEach((section, sectionIndex) => {
+    if (!section.instruments.bass) {
+      previous = null;
+      return;
+    }
+    const sectionRng = rng.fork(`bass-${sectionIndex}`);
+    const style = styleFor(section, sectionRng.fork('style'), meter);
+
+    section.chords.forEach(slot => {
+      const following = slots[slots.indexOf(slot) + 1];
+      // Chords longer than a bar are played bar by bar; only the last bar leads into the next chord
+      const notes = slotPieces(onBeatSlot(slot), arrangement.beatsPerBar).flatMap(piece => {
+        const next = piece.last ? following : slot;
+        const played = style({ slot: piece.slot, barOffset: piece.barOffset, next, section, previous, meter, rng: sectionRng });
+        if (played.length > 0) previous = played[played.length - 1].midi;
+        return played;
+      });
+      events.push(...anticipate(notes, slot));
+    });
+  });
+
+  return events;
+};
@@ -0,0 +1,206 @@
+import type { TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, ChordSlot, NoteEvent, Section } from './types';
+import type { Rng } from './random';
+import type { Chord } from './theory';
+import { chordToMidi } from './theory';
+import { getMeter, pulseLength, type Meter } from './meter';
+import { anticipate, onBeatSlot, slotPieces } from './arrangement';
+import { getGenre } from './genres';
+
+export type CompingInstrument = 'keys' | 'guitar';
+
+// [offset in beats, length in beats, velocity scale]
+type CompHit = [number, number, number];
+
+interface CompRhythm {
+  hits: CompHit[];
+  arpeggiate?: boolean; // Play one voicing note per hit instead of the whole chord
+}
+
+const eighths = (length: number, count = 8): CompHit[] =>
+  Array.from({ length: count }, (_, i) => [i * 0.5, length, i % 2 === 0 ? 1 : 0.75] as CompHit);
+
+const COMP_RHYTHMS = {
+  pad: { hits: [[0, 4, 0.8]] },
+  halfNotes: { hits: [[0, 2, 1], [2, 2, 0.85]] },
+  quarters: { hits: [[0, 0.9, 1], [1, 0.9, 0.8], [2, 0.9, 0.9], [3, 0.9, 0.8]] },
+  eighths: { hits: eighths(0.45) },
+  // Short chops on the backbeat
+  skank: { hits: [[1, 0.25, 1], [3, 0.25, 1]] },
+  // Beat one and the "and" of two
+  charleston: { hits: [[0, 1, 1], [1.5, 0.5, 0.9]] },
+  stabs: { hits: [[0.5, 0.25, 0.9], [1.75, 0.25, 0.8], [3, 0.5, 0.9]] },
+  // Down, down-up, up-down-up
+  strum: { hits: [[0, 1, 1], [1, 0.5, 0.85], [1.5, 0.5, 0.7], [2.5, 0.5, 0.7], [3, 0.5, 0.85], [3.5, 0.5, 0.7]] },
+  arpeggio: { hits: eighths(0.5), arpeggiate: true },
+} satisfies Record<string, CompRhythm>;
+
+export type CompRhythmName = keyof typeof COMP_RHYTHMS;
+
+// The 4/4 rhythms don't fit other meters. Pads and arpeggios stretch to the bar,
+// everything else becomes one hit per pulse with the strong pulses accented.
+const meterRhythm = (name: CompRhythmName, meter: Meter): CompRhythm => {
+  if (meter.signature === '4/4') return COMP_RHYTHMS[name];
+  if (name === 'pad') return { hits: [[0, meter.quartersPerBar, 0.8]] };
+  if (name === 'arpeggio') return { hits: eighths(0.5, Math.round(meter.quartersPerBar * 2)), arpeggiate: true };
+  return {
+    hits: meter.pulses.map((pulse, i) => [pulse, pulseLength(meter, i) * 0.9, meter.strongPulses.includes(pulse) ? 1 : 0.8]),
+  };
+};
+
+// Register each instrument's voicings must fit in
+const REGISTERS: Record<CompingInstrument, { low: number; high: number }> = {
+  keys: { low: 48, high: 76 },   // C3 to E5
+  guitar: { low: 52, high: 76 }, // E3 to E5, plus a doubled root down to E2
+};
+
+const GUITAR_LOWEST = 40; // E2
+
+// Delay between strings when strumming, in beats
+const STRUM_SPREAD = 0.03;
+
+// Chord tones to voice; extended chords leave out the fifth so the upper structure fits the hands
+const voicingTones = (chord: Chord): number[] => {
+  const tones = chordToMidi(chord, 4);
+  return tones.length > 4 ? tones.filter((_, i) => chord.intervals[i] !== 7) : tones;
+};
+
+// Every inversion of a chord, in every octave that fits the register
+export const chordVoicings = (chord: Chord, low: number, high: number): number[][] => {
+  const tones = voicingTones(chord);
+  const voicings: number[][] = [];
+
+  tones.forEach((_, inversion) => {
+    // Rotate the chord and stack each tone above the previous one
+    const rotated = [...tones.slice(inversion), ...tones.slice(0, inversion)];
+    const stacked = rotated.reduce<number[]>((notes, tone) => {
+      let note = tone;
+      const below = notes[notes.length - 1];
+      while (below !== undefined && note <= below) note += 12;
+      return [...notes, note];
+    }, []);
+
+    for (let shift = -36; shift <= 36; shift += 12) {
+      const voicing = stacked.map(note => note + shift);
+      if (voicing[0] >= low && voicing[voicing.length - 1] <= high) {
+        voicings.push(voicing);
+      }
+    }
+  });
+  return voicings;
+};
+
+// Total movement between two voicings: each note's distance to the closest note of the other
+const voiceLeadingCost = (from: number[], to: number[]): number => {
+  const closest = (note: number, notes: number[]) => Math.min(...notes.map(other => Math.abs(other - note)));
+  return to.reduce((sum, note) => sum + closest(note, from), 0)
+    + from.reduce((sum, note) => sum + closest(note, to), 0);
+};
+
+// Pick the voicing that moves least from the previous one (or sits mid-register for the first chord)
+export const voiceLead = (chord: Chord, previous: number[] | null, low: number, high: number): number[] => {
+  const voicings = chordVoicings(chord, low, high);
+  if (voicings.length === 0) return voicingTones(chord);
+
+  const center = (low + high) / 2;
+  const mean = (notes: number[]) => notes.reduce((sum, note) => sum + note, 0) / notes.length;
+  const cost = (voicing: number[]) => previous
+    ? voiceLeadingCost(previous, voicing) + Math.abs(mean(voicing) - center) * 0.25
+    : Math.abs(mean(voicing) - center);
+
+  return voicings.reduce((best, voicing) => (cost(voicing) < cost(best) ? voicing : best));
+};
+
+// Guitar voicings double the root below the upper structure when it fits
+const guitarVoicing = (voicing: number[], chord: Chord): number[] => {
+  let root = chordToMidi(chord, 2)[0];
+  while (root + 12 < voicing[0]) root += 12;
+  return root >= GUITAR_LOWEST && root < voicing[0] ? [root, ...voicing] : voicing;
+};
+
+const sectionVelocity = (section: Section) => 0.6 + section.density * 0.3;
+
+// Play the hits of a one-bar rhythm that fall under a chord. `barOffset` is where the slot starts within its bar.
+const compChord = (
+  instrument: CompingInstrument,
+  rhythm: CompRhythm,
+  slot: ChordSlot,
+  barOffset: number,
+  voicing: number[],
+  section: Section
+): NoteEvent[] => {
+  const velocity = sectionVelocity(section);
+  const notes: NoteEvent[] = [];
+
+  rhythm.hits.forEach(([hitOffset, hitLength, accent], hitIndex) => {
+    // A hit still ringing when the chord changes mid-bar is struck again on the new chord
+    const ringing = hitOffset < barOffset && hitOffset + hitLength > barOffset + 1e-6;
+    const offset = ringing ? 0 : hitOffset - barOffset;
+    const length = ringing ? hitOffset + hitLength - barOffset : hitLength;
+    if (offset < 0 || offset >= slot.duration) return;
+    const time = slot.time + offset;
+    // Pads and the last hit ring until the chord changes
+    const duration = Math.min(length, slot.duration - offset);
+
+    if (rhythm.arpeggiate) {
+      // Up and back down the voicing
+      const cycle = [...voicing, ...voicing.slice(1, -1).reverse()];
+      notes.push({ time, duration, midi: cycle[hitIndex % cycle.length], velocity: velocity * accent });
+      return;
+    }
+
+    if (instrument === 'guitar') {
+      // Strings sound one after another: downstrokes on the beat, upstrokes off it
+      const upstroke = (barOffset + offset) % 1 !== 0;
+      const strings = upstroke ? [...voicing].reverse().slice(0, 4) : voicing;
+      strings.forEach((midi, string) => {
+        const delay = string * STRUM_SPREAD;
+        notes.push({
+          time: time + delay,
+          duration: Math.max(0.05, duration - delay),
+          midi,
+          velocity: velocity * accent * (upstroke ? 0.85 : 1) * (1 - string * 0.03),
+        });
+      });
+      return;
+    }
+
+    voicing.forEach(midi => notes.push({ time, duration, midi, velocity: velocity * accent }));
+  });
+  return notes;
+};
+
+// Generate a voice-led comping part for keys or guitar over the whole arrangement
+export const generateCompingPart = (
+  instrument: CompingInstrument,
+  arrangement: Arrangement,
+  settings: TrackSettings,
+  rng: Rng
+): NoteEvent[] => {
+  // The genre lists the sparse choice first, used in quiet sections
+  const choices = getGenre(settings.genre).comping[instrument];
+  const { low, high } = REGISTERS[instrument];
+  const meter = getMeter(arrangement.timeSignature);
+  const events: NoteEvent[] = [];
+  let previous: number[] | null = null;
+
+  arrangement.sections.forEach((section, sectionIndex) => {
+    if (!section.instruments[instrument]) return;
+
+    const sectionRng = rng.fork(`${instrument}-${sectionIndex}`);
+    const options = choices.length > 1 ? choices.slice(1) : choices;
+    const rhythm = meterRhythm(section.density < 0.45 ? choices[0] : sectionRng.pick(options), meter);
+
+    section.chords.forEach(slot => {
+      // Voice-lead the upper structure; the guitar's doubled root doesn't count
+      const voicing = voiceLead(slot.chord, previous, low, high);
+      previous = voicing;
+      const played = instrument === 'guitar' ? guitarVoicing(voicing, slot.chord) : voicing;
+      const notes = slotPieces(onBeatSlot(slot), arrangement.beatsPerBar)
+        .flatMap(piece => compChord(instrument, rhythm, piece.slot, piece.barOffset, played, section));
+      events.push(...anticipate(notes, slot));
+    });
+  });
+
+  return events;
+};
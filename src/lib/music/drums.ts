@@ -0,0 +1,194 @@
+import type { TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, NoteEvent, Section } from './types';
+import type { Rng } from './random';
+import type { TimeSignature } from './meter';
+import { getGenre, type GenreDefinition } from './genres';
+
+// General MIDI percussion note numbers (channel 10)
+export const GM_DRUMS = {
+  kick: 36,
+  sideStick: 37,
+  snare: 38,
+  clap: 39,
+  closedHat: 42,
+  lowTom: 45,
+  pedalHat: 44,
+  openHat: 46,
+  midTom: 47,
+  crash: 49,
+  highTom: 50,
+  ride: 51,
+} as const;
+
+export type DrumVoice = keyof typeof GM_DRUMS;
+
+// One bar of a step-grid pattern, one string per voice with a character per 16th note:
+// 'X' accent, 'x' normal hit, 'g' ghost note, '.' rest
+export type DrumGrid = Partial<Record<DrumVoice, string>>;
+
+type DrumStyle = GenreDefinition['drums'];
+
+const STEPS_PER_BEAT = 4;
+
+// Velocity multipliers per 16th position in a beat: downbeat, e, and, a
+const BEAT_ACCENTS = [1, 0.7, 0.85, 0.7];
+
+const HIT_VELOCITY: Record<string, number> = { X: 1, x: 0.8, g: 0.35 };
+
+// Grooves for meters other than 4/4, one bar at 16th-note resolution.
+// Genres keep some character through their meter voice swaps.
+const METER_GROOVES: Record<Exclude<TimeSignature, '4/4'>, DrumGrid> = {
+  // Waltz: kick on one, snare on two and three
+  '3/4':  { kick: 'x...........', snare: '....x...x...', closedHat: 'x.x.x.x.x.x.' },
+  // Two dotted-quarter beats: kick on one, backbeat on four
+  '6/8':  { kick: 'x.........x.', snare: '......X.....', closedHat: 'x.x.x.x.x.x.' },
+  // 3 + 2
+  '5/4':  { kick: 'x.....x.....x.......', snare: '....X...........X...', closedHat: 'x.x.x.x.x.x.x.x.x.x.' },
+  // 2 + 2 + 3 eighths
+  '7/8':  { kick: 'x.......x.....', snare: '....X.......x.', closedHat: 'x.x.x.x.x.x.x.' },
+  // Four dotted-quarter beats with a slow backbeat
+  '12/8': { kick: 'x...........x...x.......', snare: '......X...........X.....', closedHat: 'x.x.x.x.x.x.x.x.x.x.x.x.' },
+};
+
+// Odd-meter groove with the genre's voices swapped in
+const meterGroove = (signature: Exclude<TimeSignature, '4/4'>, style: DrumStyle): DrumGrid => {
+  const grid = METER_GROOVES[signature];
+  return Object.fromEntries(
+    (Object.keys(grid) as DrumVoice[]).map(voice => [style.meterSwaps?.[voice] ?? voice, grid[voice]])
+  ) as DrumGrid;
+};
+
+// Which groove each section type prefers (index into the style's grooves, wrapped)
+const SECTION_GROOVE: Record<Section['name'], number> = {
+  intro: 0,
+  verse: 0,
+  chorus: 1,
+  bridge: 2,
+  outro: 0,
+};
+
+const BUSY_MOODS = ['energetic', 'intense', 'upbeat'];
+
+// Thin out or thicken the hats to match the section density
+const adaptGridToDensity = (grid: DrumGrid, density: number): DrumGrid => {
+  const adapted = { ...grid };
+  (['closedHat', 'ride'] as DrumVoice[]).forEach(voice => {
+    const line = adapted[voice];
+    if (!line) return;
+    if (density < 0.4) {
+      // Quarter notes only
+      adapted[voice] = [...line].map((ch, step) => (step % STEPS_PER_BEAT === 0 ? ch : '.')).join('');
+    } else if (density > 0.85 && voice === 'closedHat') {
+      // Fill in 16ths as soft ghost hits
+      adapted[voice] = [...line].map(ch => (ch === '.' ? 'g' : ch)).join('');
+    }
+  });
+  return adapted;
+};
+
+// Convert one bar of grid into note events
+const gridToEvents = (grid: DrumGrid, barStart: number, stepsPerBar: number, baseVelocity: number, fromStep = 0, toStep = stepsPerBar): NoteEvent[] => {
+  const events: NoteEvent[] = [];
+  (Object.keys(grid) as DrumVoice[]).forEach(voice => {
+    const line = grid[voice] || '';
+    for (let step = fromStep; step < toStep; step++) {
+      const hit = line[step % line.length];
+      if (!hit || hit === '.') continue;
+      const accent = BEAT_ACCENTS[step % STEPS_PER_BEAT];
+      events.push({
+        time: barStart + step / STEPS_PER_BEAT,
+        duration: 1 / STEPS_PER_BEAT,
+        midi: GM_DRUMS[voice],
+        velocity: Math.min(1, baseVelocity * HIT_VELOCITY[hit] * (hit === 'g' ? 1 : accent)),
+      });
+    }
+  });
+  return events;
+};
+
+// Random ghost notes on weak 16ths that are still free
+const addGhostNotes = (events: NoteEvent[], style: DrumStyle, barStart: number, stepsPerBar: number, density: number, rng: Rng): NoteEvent[] => {
+  if (!style.ghostVoice || density < 0.4) return events;
+  const midi = GM_DRUMS[style.ghostVoice];
+  const taken = new Set(events.filter(e => e.midi === midi).map(e => Math.round((e.time - barStart) * STEPS_PER_BEAT)));
+  const ghosts: NoteEvent[] = [];
+  for (let step = 0; step < stepsPerBar; step++) {
+    if (step % 2 === 0 || taken.has(step)) continue;
+    if (rng.chance(style.ghostChance * density * 2)) {
+      ghosts.push({ time: barStart + step / STEPS_PER_BEAT, duration: 1 / STEPS_PER_BEAT, midi, velocity: 0.25 + rng.next() * 0.1 });
+    }
+  }
+  return [...events, ...ghosts];
+};
+
+// A fill over the last `beats` beats of a bar, descending through the fill voices
+const buildFill = (style: DrumStyle, barStart: number, beatsPerBar: number, beats: number, rng: Rng): NoteEvent[] => {
+  const fill: NoteEvent[] = [];
+  const fillSteps = beats * STEPS_PER_BEAT;
+  const firstStep = beatsPerBar * STEPS_PER_BEAT - fillSteps;
+  // Either an 8th- or a 16th-note fill
+  const stride = rng.chance(0.5) ? 1 : 2;
+  for (let i = 0; i < fillSteps; i += stride) {
+    const voiceIndex = Math.min(style.fillVoices.length - 1, Math.floor((i / fillSteps) * style.fillVoices.length));
+    fill.push({
+      time: barStart + (firstStep + i) / STEPS_PER_BEAT,
+      duration: 1 / STEPS_PER_BEAT,
+      midi: GM_DRUMS[style.fillVoices[voiceIndex]],
+      velocity: 0.6 + (i / fillSteps) * 0.35, // Crescendo into the next phrase
+    });
+  }
+  // Anchor the fill with a kick on its first step
+  fill.push({ time: barStart + firstStep / STEPS_PER_BEAT, duration: 1 / STEPS_PER_BEAT, midi: GM_DRUMS.kick, velocity: 0.8 });
+  return fill;
+};
+
+// Generate the drum part for the whole arrangement
+export const generateDrumPart = (arrangement: Arrangement, settings: TrackSettings, rng: Rng): NoteEvent[] => {
+  const style = getGenre(settings.genre).drums;
+  const beatsPerBar = arrangement.beatsPerBar;
+  const stepsPerBar = beatsPerBar * STEPS_PER_BEAT;
+  const busyMood = BUSY_MOODS.includes(settings.mood);
+  const events: NoteEvent[] = [];
+
+  arrangement.sections.forEach((section, sectionIndex) => {
+    if (!section.instruments.drums) return;
+    const sectionRng = rng.fork(`drums-${sectionIndex}`);
+
+    // Other meters have their own grooves; in 4/4 dark moods fall back to a half-time feel where the style has one
+    const baseGroove = arrangement.timeSignature !== '4/4'
+      ? meterGroove(arrangement.timeSignature, style)
+      : settings.mood === 'dark' && style.halfTime
+        ? style.halfTime
+        : style.grooves[SECTION_GROOVE[section.name] % style.grooves.length];
+    const grid = adaptGridToDensity(baseGroove, section.density);
+    const baseVelocity = 0.6 + section.density * 0.35;
+    const fillChance = style.fillChance * (busyMood ? 1.2 : 0.8);
+
+    for (let bar = 0; bar < section.bars; bar++) {
+      const barStart = (section.startBar + bar) * beatsPerBar;
+      const isSectionEnd = bar === section.bars - 1;
+      const isPhraseEnd = (bar + 1) % 4 === 0 || isSectionEnd;
+      const nextSection = arrangement.sections[sectionIndex + 1];
+
+      // Fills at phrase ends; longer fills into a new section
+      const wantsFill = isPhraseEnd && section.bars > 1 && sectionRng.chance(isSectionEnd ? fillChance : fillChance * 0.4);
+      const fillBeats = wantsFill ? (isSectionEnd && nextSection && section.density > 0.5 ? 2 : 1) : 0;
+      const grooveSteps = stepsPerBar - fillBeats * STEPS_PER_BEAT;
+
+      let barEvents = gridToEvents(grid, barStart, stepsPerBar, baseVelocity, 0, grooveSteps);
+      barEvents = addGhostNotes(barEvents, style, barStart, grooveSteps, section.density, sectionRng);
+      if (fillBeats > 0) {
+        barEvents.push(...buildFill(style, barStart, beatsPerBar, fillBeats, sectionRng));
+      }
+
+      // Crash on the downbeat of every section after the first
+      if (bar === 0 && sectionIndex > 0 && section.density > 0.3) {
+        barEvents.push({ time: barStart, duration: 1, midi: GM_DRUMS.crash, velocity: baseVelocity });
+      }
+
+      events.push(...barEvents);
+    }
+  });
+
+  return events.sort((a, b) => a.time - b.time);
+};
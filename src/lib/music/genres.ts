@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import type { GrooveSettings, InstrumentType, ReharmonizationSettings } from '@/hooks/audio/types';
+import type { DrumVoice } from './drums';
+import type { BassDegree } from './bass';
+import type { CompRhythmName } from './comping';
+import type { Phrase } from './types';
+import { DEGREE_NUMERALS, numeralDegree } from './styleModel';
+
+// Genres are plain data: the bundled ones live in ./genres as JSON, users can import more
+
+const INSTRUMENTS = ['drums', 'bass', 'guitar', 'keys', 'melody'] as const satisfies readonly InstrumentType[];
+const DRUM_VOICES = [
+  'kick', 'sideStick', 'snare', 'clap', 'closedHat', 'lowTom', 'pedalHat',
+  'openHat', 'midTom', 'crash', 'highTom', 'ride',
+] as const satisfies readonly DrumVoice[];
+const BASS_DEGREES = ['R', '5', '3', '8', 'A'] as const satisfies readonly BassDegree[];
+const COMP_RHYTHM_NAMES = [
+  'pad', 'halfNotes', 'quarters', 'eighths', 'skank', 'charleston', 'stabs', 'strum', 'arpeggio',
+] as const satisfies readonly CompRhythmName[];
+
+const instrument = z.enum(INSTRUMENTS);
+const drumVoice = z.enum(DRUM_VOICES);
+const unit = z.number().min(0).max(1);
+
+// One bar of 16th notes per voice: 'X' accent, 'x' hit, 'g' ghost note, '.' rest
+const drumGrid = z.record(drumVoice, z.string().regex(/^[Xxg.]+$/, 'Use X, x, g and . only'));
+
+// [offset in beats, length in beats, note] within one 4/4 bar.
+// Rebuilt as an exact tuple: without strict null checks zod infers a rest element.
+const bassNote = z.tuple([z.number().min(0).max(4), z.number().positive(), z.enum(BASS_DEGREES)])
+  .transform(([offset, length, degree]): [number, number, BassDegree] => [offset, length, degree]);
+const bassCell = z.array(bassNote).min(1);
+
+// Rebuilt as GrooveSettings: without strict null checks zod infers every field as optional
+const grooveSchema = z.object({
+  swing: unit,
+  swingSubdivision: z.enum(['8n', '16n']),
+  instrumentSwing: z.record(instrument, unit).default({}),
+  timingJitter: z.number().min(0).max(50),
+  velocityVariation: unit,
+  accent: z.enum(['flat', 'downbeat', 'backbeat', 'offbeat']),
+}).transform(({ swing, swingSubdivision, instrumentSwing, timingJitter, velocityVariation, accent }): GrooveSettings => ({
+  swing, swingSubdivision, instrumentSwing, timingJitter, velocityVariation, accent,
+}));
+
+// Rebuilt as ReharmonizationSettings for the same reason; techniques left out stay off
+const reharmonizationSchema = z.object({
+  secondaryDominants: z.boolean().default(false),
+  iiV: z.boolean().default(false),
+  tritoneSubstitution: z.boolean().default(false),
+  borrowedChords: z.boolean().default(false),
+  extensions: z.boolean().default(false),
+}).transform(({ secondaryDominants, iiV, tritoneSubstitution, borrowedChords, extensions }): ReharmonizationSettings => ({
+  secondaryDominants, iiV, tritoneSubstitution, borrowedChords, extensions,
+}));
+
+// Corpus phrase: Roman numerals for scale degrees of the track's mode and each chord's length
+// in chord slots (one each by default). Read into scale degrees for training.
+const corpusPhrase = z.object({
+  chords: z.array(z.string().regex(/^(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)$/, 'Use a Roman numeral from I to VII')).min(1).max(8),
+  rhythm: z.array(z.number().multipleOf(0.5).positive().max(4)).optional(),
+}).refine(({ chords, rhythm }) => !rhythm || rhythm.length === chords.length, 'Give one rhythm value per chord')
+  .transform(({ chords, rhythm }): Phrase => ({
+    degrees: chords.map(numeralDegree),
+    rhythm: rhythm ?? chords.map(() => 1),
+  }));
+
+// Genres written before the corpus listed a few progressions as 0-based scale degrees
+const withCorpus = (data: unknown) => {
+  if (!data || typeof data !== 'object' || 'corpus' in data || !('progressions' in data)) return data;
+  const { progressions, ...rest } = data as { progressions: unknown };
+  return Array.isArray(progressions)
+    ? {
+      ...rest,
+      corpus: progressions.map(degrees => ({
+        chords: Array.isArray(degrees) ? degrees.map(degree => DEGREE_NUMERALS[degree] ?? degree) : degrees,
+      })),
+    }
+    : data;
+};
+
+export const genreSchema = z.preprocess(withCorpus, z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  tempo: z.tuple([z.number().min(20), z.number().max(300)])
+    .refine(([low, high]) => low <= high, 'Tempo range must go from low to high'),
+  // Example phrases the genre's chord model is trained on
+  corpus: z.array(corpusPhrase).min(1),
+  drums: z.object({
+    grooves: z.array(drumGrid).min(1),                     // Main grooves, one is picked per section type
+    halfTime: drumGrid.optional(),                         // Used for dark moods
+    ghostVoice: drumVoice.optional(),                      // Voice used for random ghost notes
+    ghostChance: unit,                                     // Chance of a ghost note on a free weak 16th
+    fillVoices: z.array(drumVoice).min(1),                 // Voices fills are built from, high to low
+    fillChance: unit,                                      // Chance of a fill at a phrase end
+    meterSwaps: z.record(drumVoice, drumVoice).optional(), // Voices swapped in the grooves for other meters
+  }),
+  // Cells are picked once per section, the first one in quiet sections
+  bass: z.discriminatedUnion('style', [
+    z.object({ style: z.literal('cells'), cells: z.array(bassCell).min(1) }),
+    z.object({ style: z.literal('walking') }),
+  ]),
+  // Rhythm choices per instrument, the first one in quiet sections
+  comping: z.object({
+    keys: z.array(z.enum(COMP_RHYTHM_NAMES)).min(1),
+    guitar: z.array(z.enum(COMP_RHYTHM_NAMES)).min(1),
+  }),
+  groove: grooveSchema,
+  reharmonization: reharmonizationSchema.default({}), // Techniques switched on when the genre is picked
+  instruments: z.record(instrument, z.number().min(0).max(3)).default({}), // Scales each instrument's chance of playing
+  mix: z.record(instrument, z.number().min(-60).max(6)).default({}),        // Default volumes in dB
+}));
+
+export type GenreDefinition = z.output<typeof genreSchema>;
+
+export const DEFAULT_GENRE = 'rock';
+
+const registry = new Map<string, GenreDefinition>();
+const bundled = new Set<string>();
+const listeners = new Set<() => void>();
+let snapshot: GenreDefinition[] = [];
+
+const changed = () => {
+  snapshot = [...registry.values()];
+  listeners.forEach(listener => listener());
+};
+
+// Validate a genre definition, with readable messages for the first few problems
+export const parseGenre = (data: unknown): { genre: GenreDefinition } | { error: string } => {
+  const result = genreSchema.safeParse(data);
+  if (result.success) return { genre: result.data };
+  const problems = result.error.issues
+    .slice(0, 3)
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  return { error: problems.join('; ') };
+};
+
+// Add or replace a genre; bundled genres can't be replaced
+export const registerGenre = (genre: GenreDefinition): boolean => {
+  if (bundled.has(genre.id)) return false;
+  registry.set(genre.id, genre);
+  changed();
+  return true;
+};
+
+export const isBundledGenre = (id: string) => bundled.has(id);
+
+export const getGenre = (id: string): GenreDefinition => registry.get(id) || registry.get(DEFAULT_GENRE)!;
+
+export const listGenres = (): GenreDefinition[] => snapshot;
+
+export const subscribeGenres = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Bundled genres are checked like any other; a broken file is skipped rather than breaking the app
+Object.entries(import.meta.glob('./genres/*.json', { eager: true, import: 'default' })).forEach(([path, data]) => {
+  const parsed = parseGenre(data);
+  if ('error' in parsed) {
+    console.error(`Invalid genre definition ${path}: ${parsed.error}`);
+    return;
+  }
+  registry.set(parsed.genre.id, parsed.genre);
+  bundled.add(parsed.genre.id);
+});
+changed();
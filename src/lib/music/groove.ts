@@ -0,0 +1,74 @@
+import type { AccentCurve, GrooveSettings, InstrumentType, TrackSettings } from '@/hooks/audio/types';
+import type { NoteEvent } from './types';
+import type { Rng } from './random';
+import type { Meter } from './meter';
+
+// Straight feel with a light human touch; genres bring their own
+export const DEFAULT_GROOVE: GrooveSettings = {
+  swing: 0, swingSubdivision: '8n', instrumentSwing: {}, timingJitter: 6, velocityVariation: 0.25, accent: 'backbeat',
+};
+
+export const ACCENT_CURVES: AccentCurve[] = ['flat', 'downbeat', 'backbeat', 'offbeat'];
+
+// Velocity multipliers for notes on pulses 1-4 of the bar, and for notes between pulses
+const ACCENT_WEIGHTS: Record<AccentCurve, { beats: number[]; offbeat: number }> = {
+  flat:     { beats: [1, 1, 1, 1],          offbeat: 1 },
+  downbeat: { beats: [1.1, 0.95, 1, 0.95],  offbeat: 0.9 },
+  backbeat: { beats: [1, 1.1, 0.95, 1.1],   offbeat: 0.9 },
+  offbeat:  { beats: [0.95, 0.9, 0.95, 0.9], offbeat: 1.1 },
+};
+
+// Largest distance from the grid still treated as "on" a grid line, in beats.
+// Covers guitar strums, whose strings arrive slightly after the beat.
+const GRID_TOLERANCE = 0.13;
+
+const isOnGrid = (time: number, step: number) => {
+  const nearest = Math.round(time / step) * step;
+  return Math.abs(time - nearest) <= Math.min(GRID_TOLERANCE, step * 0.45) && time >= nearest - 1e-6;
+};
+
+// Delay of every second note of a swing pair, in beats. Full swing puts it on the triplet.
+export const swingOffset = (time: number, swing: number, subdivision: GrooveSettings['swingSubdivision']): number => {
+  if (swing <= 0) return 0;
+  const step = subdivision === '8n' ? 0.5 : 0.25;
+  if (!isOnGrid(time, step)) return 0;
+  const index = Math.round(time / step);
+  return index % 2 === 1 ? (swing * step * 2) / 6 : 0;
+};
+
+// Accent for a note at `time`, by the pulse it falls on
+const pulseAccent = (time: number, meter: Meter, accents: { beats: number[]; offbeat: number }): number => {
+  const position = time % meter.quartersPerBar;
+  const pulse = meter.pulses.findIndex(start => Math.abs(position - start) <= GRID_TOLERANCE && position >= start - 1e-6);
+  return pulse === -1 ? accents.offbeat : accents.beats[pulse % accents.beats.length];
+};
+
+// Apply swing, timing jitter, accents and velocity variation to one instrument's part
+export const applyGroove = (
+  notes: NoteEvent[],
+  instrument: InstrumentType,
+  settings: TrackSettings,
+  meter: Meter,
+  rng: Rng
+): NoteEvent[] => {
+  const groove = settings.groove || DEFAULT_GROOVE;
+  const swing = groove.instrumentSwing[instrument] ?? groove.swing;
+  const accents = ACCENT_WEIGHTS[groove.accent] || ACCENT_WEIGHTS.flat;
+  // Milliseconds to beats at the track tempo
+  const jitter = (groove.timingJitter / 1000) * (settings.bpm / 60);
+
+  return notes.map(note => {
+    const delay = swingOffset(note.time, swing, groove.swingSubdivision);
+    const accent = pulseAccent(note.time, meter, accents);
+    const spread = 1 + (rng.next() * 2 - 1) * groove.velocityVariation * 0.2;
+    const shift = jitter > 0 ? (rng.next() * 2 - 1) * jitter : 0;
+
+    return {
+      ...note,
+      time: Math.max(0, note.time + delay + shift),
+      // Swung notes end on time so they don't overlap the next one
+      duration: Math.max(0.05, note.duration - delay),
+      velocity: Math.max(0.05, Math.min(1, note.velocity * accent * spread)),
+    };
+  });
+};
@@ -0,0 +1,48 @@
+import type { ProgressionChord, TrackLocks, TrackSettings } from '@/hooks/audio/types';
+import { generateArrangement } from './arrangement';
+import { progressionBars, progressionFromArrangement } from './progressions';
+import { DEFAULT_REHARMONIZATION } from './reharmonize';
+
+export const DEFAULT_LOCKS: TrackLocks = { parts: {} };
+
+// Chords of a progression between two bar positions, clipped to them. The last chord rings on.
+const chordsBetween = (progression: ProgressionChord[], from: number, to: number): ProgressionChord[] => {
+  const chords: ProgressionChord[] = [];
+  let start = 0;
+  progression.forEach((chord, i) => {
+    const end = i === progression.length - 1 ? Infinity : start + chord.bars;
+    const bars = Math.min(to, end) - Math.max(from, start);
+    if (bars > 1e-6) chords.push({ symbol: chord.symbol, bars });
+    start = end;
+  });
+  return chords;
+};
+
+// Settings for a new take with another seed: locked chords stay where they are and the bars
+// between them take the new take's chords. Locked parts are kept by the part renderer, every
+// other part follows the new seed.
+export const rerollSettings = (settings: TrackSettings, seed: number): TrackSettings => {
+  const rerolled = { ...settings, seed, partSeeds: {} };
+  const progression = settings.progression;
+  if (!progression?.some(chord => chord.locked)) {
+    return { ...rerolled, progression: null };
+  }
+
+  const totalBars = Math.ceil(progressionBars(progression) - 1e-6);
+  const fresh = progressionFromArrangement(generateArrangement({
+    ...rerolled,
+    progression: null,
+    duration: totalBars,
+    reharmonization: DEFAULT_REHARMONIZATION,
+    harmonicRhythm: { ...settings.harmonicRhythm, push: false },
+  }));
+  let bar = 0;
+  return {
+    ...rerolled,
+    progression: progression.flatMap(chord => {
+      const from = bar;
+      bar += chord.bars;
+      return chord.locked ? [chord] : chordsBetween(fresh, from, bar);
+    }),
+  };
+};
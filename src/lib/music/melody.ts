@@ -0,0 +1,207 @@
+import type { TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, ChordSlot, NoteEvent, Section, SectionName } from './types';
+import type { Rng } from './random';
+import { chordToMidi, getScale, noteToMidi, type Mode } from './theory';
+import { getMeter } from './meter';
+import { chordAt } from './arrangement';
+
+// Comfortable range for a sung or played guide melody: D4 to A5
+export const MELODY_LOW = 62;
+export const MELODY_HIGH = 81;
+
+// [offset in beats, length in beats]
+type MelodyRhythm = [number, number][];
+
+// A one-bar idea: a rhythm plus the scale steps between its notes
+interface Motif {
+  rhythm: MelodyRhythm;
+  steps: number[];
+}
+
+// What each bar of a four-bar phrase plays
+type PhraseRole = 'call' | 'answer' | 'contrast' | 'cadence' | 'rest';
+
+// Motif and cadence rhythms are a 4/4 bar long
+const MOTIF_BEATS = 4;
+
+// One-bar rhythms, from sparse to busy
+const MOTIF_RHYTHMS: MelodyRhythm[] = [
+  [[0, 2], [2, 2]],
+  [[0, 1.5], [1.5, 0.5], [2, 2]],
+  [[0, 1], [1, 1], [2, 1.5], [3.5, 0.5]],
+  [[0, 0.5], [0.5, 0.5], [1, 1], [2, 0.5], [2.5, 0.5], [3, 1]],
+  [[0.5, 0.5], [1, 0.5], [1.5, 0.5], [2, 1], [3, 0.5], [3.5, 0.5]],
+];
+
+// Phrase endings land on a long note
+const CADENCE_RHYTHMS: MelodyRhythm[] = [
+  [[0, 4]],
+  [[0, 1], [1, 3]],
+  [[0, 1.5], [1.5, 0.5], [2, 2]],
+];
+
+// Mostly stepwise motion with the occasional leap
+const STEPS = [-3, -2, -1, 0, 1, 2, 3, 4];
+const STEP_WEIGHTS = [0.5, 1.5, 3, 1, 3, 1.5, 0.5, 0.3];
+
+// Busier sections get busier rhythms
+const pickRhythm = (density: number, rng: Rng): MelodyRhythm => {
+  const top = Math.round(density * (MOTIF_RHYTHMS.length - 1));
+  return MOTIF_RHYTHMS[Math.max(0, top - rng.int(0, 1))];
+};
+
+const createMotif = (density: number, rng: Rng): Motif => {
+  const rhythm = pickRhythm(density, rng);
+  return { rhythm, steps: rhythm.map(() => rng.weighted(STEPS, STEP_WEIGHTS)) };
+};
+
+// Repeat a motif with a change: a new ending, a displaced note or an inverted step
+const varyMotif = (motif: Motif, rng: Rng): Motif => {
+  const steps = [...motif.steps];
+  const rhythm = motif.rhythm.map(([offset, length]) => [offset, length] as [number, number]);
+  const variation = rng.int(0, 2);
+
+  if (variation === 0) {
+    steps[steps.length - 1] = rng.weighted(STEPS, STEP_WEIGHTS);
+  } else if (variation === 1 && rhythm.length > 1) {
+    // Anticipate the last note by an eighth
+    const last = rhythm[rhythm.length - 1];
+    const before = rhythm[rhythm.length - 2];
+    if (last[0] - 0.5 > before[0]) {
+      before[1] = last[0] - 0.5 - before[0];
+      rhythm[rhythm.length - 1] = [last[0] - 0.5, last[1] + 0.5];
+    }
+  } else {
+    const index = rng.int(1, Math.max(1, steps.length - 1));
+    if (index < steps.length) steps[index] = -steps[index];
+  }
+  return { rhythm, steps };
+};
+
+// Fit a one-bar motif to a longer bar: the rhythm and its steps repeat up to the bar line, and a
+// cadence holds its last note instead. Shorter bars cut the motif off at the bar line.
+const fitToBar = (motif: Motif, beatsPerBar: number, cadence: boolean): Motif => {
+  if (beatsPerBar <= MOTIF_BEATS) return motif;
+  if (cadence) {
+    const last = motif.rhythm.length - 1;
+    return { ...motif, rhythm: motif.rhythm.map(([offset, length], i) => [offset, i === last ? beatsPerBar - offset : length]) };
+  }
+  const rhythm: MelodyRhythm = [];
+  const steps: number[] = [];
+  for (let start = 0; start < beatsPerBar; start += MOTIF_BEATS) {
+    motif.rhythm.forEach(([offset, length], i) => {
+      if (start + offset >= beatsPerBar) return;
+      rhythm.push([start + offset, length]);
+      steps.push(motif.steps[i]);
+    });
+  }
+  return { rhythm, steps };
+};
+
+// Bar roles for a phrase: call, answer, contrast, cadence.
+// Quiet sections leave every other bar empty for the band to answer.
+const phraseRoles = (bars: number, density: number): PhraseRole[] => {
+  const full: PhraseRole[] = bars >= 4 ? ['call', 'answer', 'contrast', 'cadence'] : bars === 3 ? ['call', 'contrast', 'cadence'] : bars === 2 ? ['call', 'cadence'] : ['cadence'];
+  return density < 0.5 ? full.map((role, i) => (i % 2 === 1 ? 'rest' : role)) : full;
+};
+
+// Every note of a key's scale in the melody's range, so steps move along the scale
+const scalePitches = (key: string, mode: Mode): number[] => {
+  const scale = getScale(key, mode);
+  const pitches: number[] = [];
+  for (let octave = 3; octave <= 6; octave++) {
+    scale.notes.forEach(note => {
+      const midi = noteToMidi(note, octave);
+      if (midi >= MELODY_LOW && midi <= MELODY_HIGH) pitches.push(midi);
+    });
+  }
+  return pitches.sort((a, b) => a - b);
+};
+
+// Generate a motif-based melody over the arrangement's chords
+export const generateMelodyPart = (arrangement: Arrangement, settings: TrackSettings, rng: Rng): NoteEvent[] => {
+  const meter = getMeter(arrangement.timeSignature);
+
+  // Scale positions follow the section's key; motifs stay the same across key changes
+  let pitches = scalePitches(settings.key, settings.mode);
+  const clampIndex = (index: number) => Math.max(0, Math.min(pitches.length - 1, index));
+
+  // Nearest scale position whose pitch belongs to the chord
+  const snapToChord = (index: number, slot: ChordSlot): number => {
+    const chordPcs = chordToMidi(slot.chord).map(midi => midi % 12);
+    const candidates = pitches.map((_, i) => i).filter(i => chordPcs.includes(pitches[i] % 12));
+    if (candidates.length === 0) return clampIndex(index);
+    return candidates.reduce((best, i) => (Math.abs(i - index) < Math.abs(best - index) ? i : best));
+  };
+
+  // Motifs are shared by sections with the same name, so choruses sound like choruses
+  const motifs: Partial<Record<SectionName, { call: Motif; contrast: Motif }>> = {};
+  const motifsFor = (section: Section) => {
+    if (!motifs[section.name]) {
+      const motifRng = rng.fork(`motif-${section.name}`);
+      motifs[section.name] = {
+        call: createMotif(section.density, motifRng.fork('call')),
+        contrast: createMotif(section.density, motifRng.fork('contrast')),
+      };
+    }
+    return motifs[section.name]!;
+  };
+
+  const events: NoteEvent[] = [];
+  // Start around the middle of the range
+  let current = Math.floor(pitches.length / 2);
+
+  arrangement.sections.forEach((section, sectionIndex) => {
+    if (!section.instruments.melody) return;
+
+    const sectionRng = rng.fork(`melody-${sectionIndex}`);
+
+    // After a modulation, continue from the new scale's note closest to the last one played
+    const sectionPitches = scalePitches(section.key, section.mode);
+    if (sectionPitches.join() !== pitches.join()) {
+      const last = pitches[current];
+      pitches = sectionPitches;
+      current = pitches.reduce((best, midi, i) => (Math.abs(midi - last) < Math.abs(pitches[best] - last) ? i : best), 0);
+    }
+    const { call, contrast } = motifsFor(section);
+    const velocity = 0.65 + section.density * 0.25;
+
+    for (let bar = 0; bar < section.bars; bar++) {
+      const barTime = (section.startBar + bar) * arrangement.beatsPerBar;
+      const phraseStart = bar - (bar % 4);
+      const roles = phraseRoles(Math.min(4, section.bars - phraseStart), section.density);
+      const role = roles[bar - phraseStart];
+      if (role === 'rest') continue;
+
+      const motif = fitToBar(
+        role === 'call' ? call
+          : role === 'answer' ? varyMotif(call, sectionRng)
+          : role === 'contrast' ? contrast
+          : { rhythm: sectionRng.pick(CADENCE_RHYTHMS), steps: [] },
+        arrangement.beatsPerBar,
+        role === 'cadence'
+      );
+
+      motif.rhythm.forEach(([offset, length], i) => {
+        if (offset >= arrangement.beatsPerBar) return;
+        const time = barTime + offset;
+        const slot = chordAt(section, time);
+        const step = motif.steps[i] ?? sectionRng.weighted([-1, 0, 1], [1, 1, 1]);
+        const target = clampIndex(current + step);
+
+        // Chord tones on strong beats, chord changes and cadences, passing tones in between
+        const strong = meter.strongPulses.includes(offset) || Math.abs(time - slot.time) < 1e-6 || role === 'cadence';
+        current = strong ? snapToChord(target, slot) : target;
+
+        events.push({
+          time,
+          duration: Math.min(length, arrangement.beatsPerBar - offset),
+          midi: pitches[current],
+          velocity: velocity * (strong ? 1 : 0.85),
+        });
+      });
+    }
+  });
+
+  return events;
+};
@@ -0,0 +1,44 @@
+// Time signatures. All positions are in quarter notes from the start of the bar,
+// matching NoteEvent times, so a 7/8 bar is 3.5 quarters long.
+
+export type TimeSignature = '4/4' | '3/4' | '6/8' | '5/4' | '7/8' | '12/8';
+
+export interface Meter {
+  signature: TimeSignature;
+  numerator: number;
+  denominator: number;
+  quartersPerBar: number;
+  pulses: number[];       // Where the felt beats fall
+  strongPulses: number[]; // Pulses that start a beat group (always includes the downbeat)
+  compound: boolean;      // Beats divide into three eighths
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = ['4/4', '3/4', '6/8', '5/4', '7/8', '12/8'];
+
+const METERS: Record<TimeSignature, Meter> = {
+  '4/4':  { signature: '4/4',  numerator: 4,  denominator: 4, quartersPerBar: 4,   pulses: [0, 1, 2, 3],       strongPulses: [0, 2],  compound: false },
+  '3/4':  { signature: '3/4',  numerator: 3,  denominator: 4, quartersPerBar: 3,   pulses: [0, 1, 2],          strongPulses: [0],     compound: false },
+  '6/8':  { signature: '6/8',  numerator: 6,  denominator: 8, quartersPerBar: 3,   pulses: [0, 1.5],           strongPulses: [0],     compound: true },
+  // Grouped 3 + 2
+  '5/4':  { signature: '5/4',  numerator: 5,  denominator: 4, quartersPerBar: 5,   pulses: [0, 1, 2, 3, 4],    strongPulses: [0, 3],  compound: false },
+  // Grouped 2 + 2 + 3 eighths
+  '7/8':  { signature: '7/8',  numerator: 7,  denominator: 8, quartersPerBar: 3.5, pulses: [0, 1, 2],          strongPulses: [0, 2],  compound: false },
+  '12/8': { signature: '12/8', numerator: 12, denominator: 8, quartersPerBar: 6,   pulses: [0, 1.5, 3, 4.5],   strongPulses: [0, 3],  compound: true },
+};
+
+export const getMeter = (signature: TimeSignature = '4/4'): Meter => METERS[signature] || METERS['4/4'];
+
+// Length of the pulse at `index`, up to the next pulse or the bar line
+export const pulseLength = (meter: Meter, index: number): number =>
+  (meter.pulses[index + 1] ?? meter.quartersPerBar) - meter.pulses[index];
+
+// A position in quarter notes as bars:beats:sixteenths ("3:2:1"), counted from 1 in beats of the
+// meter's denominator, so 6/8 has six beats of two sixteenths
+export const formatPosition = (meter: Meter, time: number): string => {
+  const bar = Math.floor(time / meter.quartersPerBar + 1e-9);
+  const inBar = time - bar * meter.quartersPerBar;
+  const beatLength = 4 / meter.denominator;
+  const beat = Math.floor(inBar / beatLength + 1e-9);
+  const sixteenth = Math.floor((inBar - beat * beatLength) * 4 + 1e-9);
+  return `${bar + 1}:${beat + 1}:${sixteenth + 1}`;
+};
@@ -0,0 +1,131 @@
+// Minimal Standard MIDI File reader: just the notes and the first time signature,
+// which is all the style analysis needs
+
+export interface MidiFileNote {
+  ticks: number;
+  durationTicks: number;
+  midi: number;
+  velocity: number; // 0-1
+  channel: number;  // 0-based, so 9 is General MIDI drums
+}
+
+export interface MidiFileData {
+  ppq: number;
+  timeSignature: [number, number];
+  notes: MidiFileNote[];
+}
+
+const text = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+
+const uint32 = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const uint16 = (bytes: Uint8Array, at: number) => (bytes[at] << 8) | bytes[at + 1];
+
+// Read the notes of every track. Throws an Error with a readable message for files it can't read.
+export const parseMidiFile = (data: ArrayBuffer): MidiFileData => {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < 14 || text(bytes, 0) !== 'MThd') {
+    throw new Error('Not a MIDI file');
+  }
+
+  const headerLength = uint32(bytes, 4);
+  const trackCount = uint16(bytes, 10);
+  const division = uint16(bytes, 12);
+  if (division & 0x8000) {
+    throw new Error('MIDI files timed in SMPTE frames are not supported');
+  }
+
+  const result: MidiFileData = { ppq: division, timeSignature: [4, 4], notes: [] };
+  let timeSignatureFound = false;
+  let offset = 8 + headerLength;
+
+  for (let track = 0; track < trackCount && offset + 8 <= bytes.length; track++) {
+    const chunkLength = uint32(bytes, offset + 4);
+    const chunkEnd = Math.min(bytes.length, offset + 8 + chunkLength);
+    if (text(bytes, offset) !== 'MTrk') {
+      offset = chunkEnd;
+      continue;
+    }
+
+    let at = offset + 8;
+    let ticks = 0;
+    let status = 0;
+    const open = new Map<number, { ticks: number; velocity: number }>();
+
+    const readLength = () => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = bytes[at++];
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80 && at < chunkEnd);
+      return value;
+    };
+
+    const noteOff = (channel: number, midi: number) => {
+      const key = channel * 128 + midi;
+      const start = open.get(key);
+      if (!start) return;
+      open.delete(key);
+      if (ticks > start.ticks) {
+        result.notes.push({ ticks: start.ticks, durationTicks: ticks - start.ticks, midi, velocity: start.velocity, channel });
+      }
+    };
+
+    while (at < chunkEnd) {
+      ticks += readLength();
+
+      // Running status: data bytes reuse the previous channel status
+      if (bytes[at] & 0x80) status = bytes[at++];
+
+      if (status === 0xff) {
+        const type = bytes[at++];
+        const length = readLength();
+        if (type === 0x58 && !timeSignatureFound && length >= 2) {
+          result.timeSignature = [bytes[at], 2 ** bytes[at + 1]];
+          timeSignatureFound = true;
+        }
+        at += length;
+        if (type === 0x2f) break;
+        continue;
+      }
+      if (status === 0xf0 || status === 0xf7) {
+        at += readLength();
+        continue;
+      }
+
+      const channel = status & 0x0f;
+      switch (status & 0xf0) {
+        case 0x90: {
+          const midi = bytes[at];
+          const velocity = bytes[at + 1];
+          at += 2;
+          noteOff(channel, midi);
+          if (velocity > 0) open.set(channel * 128 + midi, { ticks, velocity: velocity / 127 });
+          break;
+        }
+        case 0x80:
+          noteOff(channel, bytes[at]);
+          at += 2;
+          break;
+        case 0xa0:
+        case 0xb0:
+        case 0xe0:
+          at += 2;
+          break;
+        case 0xc0:
+        case 0xd0:
+          at += 1;
+          break;
+        default:
+          throw new Error(`Unreadable MIDI event in track ${track + 1}`);
+      }
+    }
+
+    offset = chunkEnd;
+  }
+
+  result.notes.sort((a, b) => a.ticks - b.ticks);
+  return result;
+};
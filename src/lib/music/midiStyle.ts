@@ -0,0 +1,116 @@
+import type { Phrase } from './types';
+import type { MidiFileData } from './midiFile';
+
+// Turn a MIDI file into progression phrases for the personal style model: find the key, name
+// the diatonic chord of every half bar, then cut the chords into four-bar phrases.
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10];
+
+const PHRASE_BARS = 4;
+const DRUM_CHANNEL = 9;
+
+const correlation = (a: number[], b: number[]) => {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  a.forEach((value, i) => {
+    num += (value - ma) * (b[i] - mb);
+    da += (value - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  });
+  return da && db ? num / Math.sqrt(da * db) : 0;
+};
+
+// Tonic pitch class and scale of the best matching key
+const findKey = (histogram: number[]): { tonic: number; scale: number[] } => {
+  let best = { tonic: 0, scale: MAJOR_SCALE, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = histogram.map((_, pc) => histogram[(pc + tonic) % 12]);
+    const major = correlation(rotated, MAJOR_PROFILE);
+    const minor = correlation(rotated, MINOR_PROFILE);
+    if (major > best.score) best = { tonic, scale: MAJOR_SCALE, score: major };
+    if (minor > best.score) best = { tonic, scale: MINOR_SCALE, score: minor };
+  }
+  return best;
+};
+
+// Scale degree of the diatonic triad that best explains a window's pitch classes
+const bestDegree = (histogram: number[], bass: number, tonic: number, scale: number[]): number => {
+  const total = histogram.reduce((sum, weight) => sum + weight, 0);
+  let best = { degree: 0, score: -Infinity };
+  for (let degree = 0; degree < 7; degree++) {
+    const tones = [0, 2, 4].map(step => (tonic + scale[(degree + step) % 7]) % 12);
+    const inside = tones.reduce((sum, pc) => sum + histogram[pc], 0);
+    const bassBonus = bass === tones[0] ? 0.3 * total : tones.includes(bass) ? 0.1 * total : 0;
+    const score = inside - 0.5 * (total - inside) + bassBonus;
+    if (score > best.score) best = { degree, score };
+  }
+  return best.degree;
+};
+
+// Four-bar phrases of the file's chords, as scale degrees with their lengths in chord slots, one
+// slot per window as in the genre corpora. Throws an Error when the file has no pitched notes.
+export const phrasesFromMidi = (file: MidiFileData): Phrase[] => {
+  const notes = file.notes.filter(note => note.channel !== DRUM_CHANNEL);
+  if (notes.length === 0) {
+    throw new Error('The file has no pitched notes to learn chords from');
+  }
+
+  const [numerator, denominator] = file.timeSignature;
+  const barTicks = file.ppq * 4 * numerator / denominator;
+  // Half bars in even meters, whole bars in odd ones
+  const windowBars = numerator % 2 === 0 ? 0.5 : 1;
+  const windowTicks = barTicks * windowBars;
+
+  const firstBar = Math.floor(notes[0].ticks / barTicks);
+  const end = notes.reduce((latest, note) => Math.max(latest, note.ticks + note.durationTicks), 0);
+  const windowCount = Math.ceil((end - firstBar * barTicks) / windowTicks);
+
+  // Sounding time of each pitch class per window, and the lowest note
+  const windows = Array.from({ length: windowCount }, () => ({ histogram: Array(12).fill(0) as number[], bass: Infinity }));
+  const overall = Array(12).fill(0) as number[];
+  notes.forEach(note => {
+    const noteStart = note.ticks - firstBar * barTicks;
+    const noteEnd = noteStart + note.durationTicks;
+    for (let w = Math.floor(noteStart / windowTicks); w < windowCount && w * windowTicks < noteEnd; w++) {
+      const overlap = Math.min(noteEnd, (w + 1) * windowTicks) - Math.max(noteStart, w * windowTicks);
+      if (overlap <= 0) continue;
+      windows[w].histogram[note.midi % 12] += overlap * note.velocity;
+      windows[w].bass = Math.min(windows[w].bass, note.midi);
+    }
+    overall[note.midi % 12] += note.durationTicks * note.velocity;
+  });
+
+  const { tonic, scale } = findKey(overall);
+
+  // Silent windows keep the chord before them
+  let previous = 0;
+  const degrees = windows.map(({ histogram, bass }) => {
+    if (bass !== Infinity) previous = bestDegree(histogram, bass % 12, tonic, scale);
+    return previous;
+  });
+
+  const perPhrase = PHRASE_BARS / windowBars;
+  const phrases: Phrase[] = [];
+  for (let start = 0; start < degrees.length; start += perPhrase) {
+    const phrase: Phrase = { degrees: [], rhythm: [] };
+    degrees.slice(start, start + perPhrase).forEach(degree => {
+      const last = phrase.degrees.length - 1;
+      if (last >= 0 && phrase.degrees[last] === degree) {
+        phrase.rhythm[last] += 1;
+      } else {
+        phrase.degrees.push(degree);
+        phrase.rhythm.push(1);
+      }
+    });
+    phrases.push(phrase);
+  }
+  return phrases;
+};
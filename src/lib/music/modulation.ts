@@ -0,0 +1,30 @@
+import type { BridgeKey, ModulationSettings, TrackSettings } from '@/hooks/audio/types';
+import type { SectionName } from './types';
+import { relativeKey, transposeKey, type Mode } from './theory';
+
+export const DEFAULT_MODULATION: ModulationSettings = { bridge: 'home', finalLift: 0 };
+
+export const BRIDGE_KEYS: BridgeKey[] = ['home', 'relative', 'subdominant'];
+
+// Semitones offered for the last-chorus lift: none, half step ("truck driver") or whole step
+export const FINAL_LIFTS = [0, 1, 2];
+
+// Local key of every section in a form. The bridge can move away from home,
+// and the last chorus can lift the key for the rest of the track.
+export const sectionKeys = (names: SectionName[], settings: TrackSettings): { key: string; mode: Mode }[] => {
+  const modulation = settings.modulation || DEFAULT_MODULATION;
+  const liftFrom = modulation.finalLift > 0 ? names.lastIndexOf('chorus') : -1;
+
+  return names.map((name, index) => {
+    if (liftFrom !== -1 && index >= liftFrom) {
+      return { key: transposeKey(settings.key, modulation.finalLift), mode: settings.mode };
+    }
+    if (name === 'bridge' && modulation.bridge === 'relative') {
+      return relativeKey(settings.key, settings.mode);
+    }
+    if (name === 'bridge' && modulation.bridge === 'subdominant') {
+      return { key: transposeKey(settings.key, 5), mode: settings.mode };
+    }
+    return { key: settings.key, mode: settings.mode };
+  });
+};
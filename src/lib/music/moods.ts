@@ -0,0 +1,80 @@
+import type { InstrumentType } from '@/hooks/audio/types';
+import type { NoteEvent } from './types';
+import type { Mode } from './theory';
+
+export type ProgressionComplexity = 'simple' | 'middle' | 'complex';
+
+// How a mood shapes the whole track, from the harmony to the mix
+export interface MoodProfile {
+  density: number;                                      // Added to every section's density
+  velocity: [number, number];                           // Range note velocities are scaled into
+  register: number;                                     // Octaves the keys and melody move up or down
+  harmonicRhythm: number;                               // Chords per bar
+  modes: Mode[];                                        // Modes that suit the mood, the first is suggested
+  bpm: [number, number];                                // Suggested tempo range
+  sends: { reverb: number; delay: number };             // Effect send levels, 0-1
+  instruments: Partial<Record<InstrumentType, number>>; // Scales each instrument's chance of playing
+  complexity: ProgressionComplexity;                    // How far the chords stray from the style's usual moves
+  tension: number;                                      // 0-1, how often the enabled reharmonizations apply
+}
+
+export const MOODS = ['energetic', 'relaxed', 'dark', 'upbeat', 'atmospheric', 'intense'];
+
+export const MOOD_PROFILES: Record<string, MoodProfile> = {
+  energetic: {
+    density: 0.1, velocity: [0.6, 1], register: 0, harmonicRhythm: 1, tension: 0.5,
+    modes: ['major', 'mixolydian', 'minor'], bpm: [120, 160],
+    sends: { reverb: 0.15, delay: 0.1 }, instruments: { drums: 1.2, guitar: 1.2 }, complexity: 'complex',
+  },
+  relaxed: {
+    density: -0.15, velocity: [0.35, 0.75], register: 0, harmonicRhythm: 0.5, tension: 0.35,
+    modes: ['major', 'lydian', 'dorian'], bpm: [80, 100],
+    sends: { reverb: 0.35, delay: 0.2 }, instruments: { drums: 0.7, guitar: 0.8 }, complexity: 'simple',
+  },
+  dark: {
+    density: -0.05, velocity: [0.45, 0.9], register: -1, harmonicRhythm: 0.5, tension: 0.45,
+    modes: ['minor', 'phrygian', 'dorian'], bpm: [80, 120],
+    sends: { reverb: 0.4, delay: 0.25 }, instruments: { guitar: 0.6, melody: 0.7 }, complexity: 'middle',
+  },
+  upbeat: {
+    density: 0.1, velocity: [0.55, 0.95], register: 1, harmonicRhythm: 2, tension: 0.4,
+    modes: ['major', 'lydian', 'mixolydian'], bpm: [100, 140],
+    sends: { reverb: 0.15, delay: 0.1 }, instruments: { guitar: 1.2, melody: 1.2 }, complexity: 'middle',
+  },
+  atmospheric: {
+    density: -0.25, velocity: [0.3, 0.7], register: 1, harmonicRhythm: 0.5, tension: 0.3,
+    modes: ['lydian', 'major', 'dorian'], bpm: [60, 90],
+    sends: { reverb: 0.6, delay: 0.4 }, instruments: { drums: 0.4, guitar: 0.7, keys: 1.2 }, complexity: 'simple',
+  },
+  intense: {
+    density: 0.25, velocity: [0.7, 1], register: -1, harmonicRhythm: 1, tension: 0.7,
+    modes: ['minor', 'phrygian', 'locrian'], bpm: [140, 180],
+    sends: { reverb: 0.1, delay: 0.05 }, instruments: { drums: 1.3, bass: 1.2 }, complexity: 'complex',
+  },
+};
+
+export const getMoodProfile = (mood: string): MoodProfile => MOOD_PROFILES[mood] || MOOD_PROFILES.energetic;
+
+// Tempo and mode to suggest when switching mood, keeping the current ones when they already fit
+export const moodSuggestions = (mood: string, bpm: number, mode: Mode): { bpm: number; mode: Mode } => {
+  const profile = getMoodProfile(mood);
+  const [low, high] = profile.bpm;
+  return {
+    bpm: Math.min(high, Math.max(low, bpm)),
+    mode: profile.modes.includes(mode) ? mode : profile.modes[0],
+  };
+};
+
+// Instruments whose register follows the mood; bass and guitar stay in their playable range
+const REGISTER_INSTRUMENTS: InstrumentType[] = ['keys', 'melody'];
+
+// Scale velocities into the mood's range and move the register
+export const applyMood = (notes: NoteEvent[], instrument: InstrumentType, profile: MoodProfile): NoteEvent[] => {
+  const [low, high] = profile.velocity;
+  const shift = REGISTER_INSTRUMENTS.includes(instrument) ? profile.register * 12 : 0;
+  return notes.map(note => ({
+    ...note,
+    midi: note.midi + shift,
+    velocity: low + note.velocity * (high - low),
+  }));
+};
@@ -0,0 +1,64 @@
+import type { InstrumentType, TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, InstrumentParts, NoteEvent } from './types';
+import { INSTRUMENT_IDS } from './arrangement';
+import { createRng } from './random';
+import { generateDrumPart } from './drums';
+import { generateBassPart } from './bass';
+import { generateCompingPart } from './comping';
+import { generateMelodyPart } from './melody';
+import { applyGroove } from './groove';
+import { getMeter } from './meter';
+import { applyMood, getMoodProfile } from './moods';
+
+type PartRenderer = (arrangement: Arrangement, settings: TrackSettings) => NoteEvent[];
+
+// Seed of one instrument's part and sample choice: the track's, unless the instrument was re-rolled on its own
+export const partSeed = (settings: TrackSettings, instrument: InstrumentType): number =>
+  settings.partSeeds[instrument] ?? settings.seed;
+
+// Each generator gets its own random stream so changing one part never shifts another
+const PART_RENDERERS: Record<InstrumentType, PartRenderer> = {
+  drums: (arrangement, settings) => generateDrumPart(arrangement, settings, createRng(partSeed(settings, 'drums')).fork('drums')),
+  bass: (arrangement, settings) => generateBassPart(arrangement, settings, createRng(partSeed(settings, 'bass')).fork('bass')),
+  guitar: (arrangement, settings) => generateCompingPart('guitar', arrangement, settings, createRng(partSeed(settings, 'guitar')).fork('guitar')),
+  keys: (arrangement, settings) => generateCompingPart('keys', arrangement, settings, createRng(partSeed(settings, 'keys')).fork('keys')),
+  melody: (arrangement, settings) => generateMelodyPart(arrangement, settings, createRng(partSeed(settings, 'melody')).fork('melody')),
+};
+
+// A freshly generated part, with the track's groove and the mood's velocity range and register applied
+const renderGeneratedPart = (
+  instrument: InstrumentType,
+  arrangement: Arrangement,
+  settings: TrackSettings
+): NoteEvent[] => applyMood(
+  applyGroove(
+    PART_RENDERERS[instrument](arrangement, settings),
+    instrument,
+    settings,
+    getMeter(arrangement.timeSignature),
+    createRng(partSeed(settings, instrument)).fork(`groove-${instrument}`)
+  ),
+  instrument,
+  getMoodProfile(settings.mood)
+);
+
+// Render the note events of one instrument across the whole arrangement. Locked parts are
+// played as they were locked, cut to the length of the track.
+export const renderInstrumentPart = (
+  instrument: InstrumentType,
+  arrangement: Arrangement,
+  settings: TrackSettings
+): NoteEvent[] => {
+  const locked = settings.locks.parts[instrument];
+  if (!locked) return renderGeneratedPart(instrument, arrangement, settings);
+  const end = arrangement.totalBars * arrangement.beatsPerBar;
+  return locked
+    .filter(note => note.time < end)
+    .map(note => ({ ...note, duration: Math.min(note.duration, end - note.time) }));
+};
+
+// Render every instrument's part
+export const renderParts = (arrangement: Arrangement, settings: TrackSettings): InstrumentParts =>
+  Object.fromEntries(
+    INSTRUMENT_IDS.map(id => [id, renderInstrumentPart(id, arrangement, settings)])
+  ) as InstrumentParts;
@@ -0,0 +1,33 @@
+import type { Phrase } from './types';
+import { trainStyleModel, type StyleModel } from './styleModel';
+
+// The user's own chord style, learned from the MIDI files they import
+
+export interface StyleSourceFile {
+  name: string;
+  phrases: Phrase[];
+}
+
+export interface PersonalStyle {
+  files: StyleSourceFile[];
+  model: StyleModel | null; // Null until a file with chords has been imported
+}
+
+const listeners = new Set<() => void>();
+let style: PersonalStyle = { files: [], model: null };
+
+// Replace the source files and retrain the model on all of their phrases
+export const setPersonalStyle = (files: StyleSourceFile[]) => {
+  const phrases = files.flatMap(file => file.phrases);
+  style = { files, model: phrases.length > 0 ? trainStyleModel(phrases) : null };
+  listeners.forEach(listener => listener());
+};
+
+export const getPersonalStyle = (): PersonalStyle => style;
+
+export const subscribePersonalStyle = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
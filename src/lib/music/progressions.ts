@@ -0,0 +1,122 @@
+import { getDiatonicChords, parseChordSymbol, type Mode } from './theory';
+import type { Rng } from './random';
+import type { HarmonicRhythmSettings, ProgressionChord, TrackSettings } from '@/hooks/audio/types';
+import type { Arrangement, ChordSlot, Phrase } from './types';
+import { getMoodProfile } from './moods';
+import { getGenre, type GenreDefinition } from './genres';
+import { samplePhrase, trainStyleModel, type StyleModel } from './styleModel';
+import { getPersonalStyle, type PersonalStyle } from './personalStyle';
+
+// Bridges move away from the tonic before heading back to the chorus
+export const BRIDGE_PROGRESSIONS: Phrase[] = [[3, 4], [5, 3, 4, 4], [3, 5, 4], [1, 4]]
+  .map(degrees => ({ degrees, rhythm: degrees.map(() => 1) }));
+
+export const DEFAULT_HARMONIC_RHYTHM: HarmonicRhythmSettings = { chordsPerBar: null, push: false };
+
+// Chords per bar a track can be set to, busiest first
+export const HARMONIC_RHYTHMS = [2, 1, 0.5];
+
+// Pushed chords arrive an eighth note early
+const PUSH_LENGTH = 0.5;
+
+// Each genre's chord model is trained from its corpus the first time the genre is used
+const genreModels = new WeakMap<GenreDefinition, StyleModel>();
+
+const genreModel = (genre: GenreDefinition): StyleModel => {
+  let model = genreModels.get(genre);
+  if (!model) {
+    model = trainStyleModel(genre.corpus);
+    genreModels.set(genre, model);
+  }
+  return model;
+};
+
+// Write a progression in the track's chord style, with the mood setting how adventurous it is.
+// The personal style falls back to the genre's until the user has imported some MIDI.
+export const pickProgression = (
+  settings: Pick<TrackSettings, 'genre' | 'mood' | 'chordStyle'>,
+  rng: Rng,
+  personalStyle: PersonalStyle = getPersonalStyle()
+): Phrase => {
+  const personal = settings.chordStyle === 'personal' ? personalStyle.model : null;
+  return samplePhrase(personal ?? genreModel(getGenre(settings.genre)), getMoodProfile(settings.mood).complexity, rng);
+};
+
+// How many chords a bar holds: the track's own harmonic rhythm, or the mood's
+export const chordsPerBar = (settings: Pick<TrackSettings, 'mood' | 'harmonicRhythm'>): number =>
+  settings.harmonicRhythm.chordsPerBar ?? getMoodProfile(settings.mood).harmonicRhythm;
+
+// Move the chord changes that fall on a bar line an eighth note early, taking the time from the
+// chord before. The first chord stays put, and so do changes after a chord too short to give it up.
+export const pushChords = (slots: ChordSlot[], beatsPerBar: number): ChordSlot[] => {
+  const pushes = slots.map((slot, i) => {
+    const previous = slots[i - 1];
+    const bar = slot.time / beatsPerBar;
+    const onBarLine = Math.abs(bar - Math.round(bar)) < 1e-6;
+    return previous && onBarLine && previous.duration >= PUSH_LENGTH * 2 && previous.chord.name !== slot.chord.name
+      ? PUSH_LENGTH
+      : 0;
+  });
+  return slots.map((slot, i) => {
+    const push = pushes[i];
+    const duration = slot.duration + push - (pushes[i + 1] ?? 0);
+    return push ? { ...slot, time: slot.time - push, duration, push } : { ...slot, duration };
+  });
+};
+
+// Chords of a phrase between `start` and `end` (quarter notes), repeated to fill the span
+export const phraseChords = (
+  key: string,
+  mode: Mode,
+  phrase: Phrase,
+  start: number,
+  end: number,
+  slotLength: number
+): ChordSlot[] => {
+  const chords = getDiatonicChords(key, mode);
+  const slots: ChordSlot[] = [];
+  for (let time = start, i = 0; end - time > 1e-6; i++) {
+    const step = i % phrase.degrees.length;
+    const duration = Math.min(phrase.rhythm[step] * slotLength, end - time);
+    slots.push({ chord: chords[phrase.degrees[step]], time, duration });
+    time += duration;
+  }
+  return slots;
+};
+
+// Length of an edited progression in bars
+export const progressionBars = (progression: ProgressionChord[]): number =>
+  progression.reduce((sum, chord) => sum + chord.bars, 0);
+
+// Chords of an edited progression between `start` and `end` (quarter notes), resolved in the
+// key of the section they fall in. The last chord rings on to the end of the track.
+export const editedChords = (
+  progression: ProgressionChord[],
+  beatsPerBar: number,
+  start: number,
+  end: number,
+  key: string,
+  mode: Mode
+): ChordSlot[] => {
+  const slots: ChordSlot[] = [];
+  let time = 0;
+  progression.forEach((entry, i) => {
+    const chordEnd = i === progression.length - 1 ? Infinity : time + entry.bars * beatsPerBar;
+    const from = Math.max(start, time);
+    const to = Math.min(end, chordEnd);
+    if (to - from > 1e-6) {
+      // Symbols are checked when they are entered; anything unreadable falls back to the tonic
+      const chord = parseChordSymbol(entry.symbol, key, mode) ?? getDiatonicChords(key, mode)[0];
+      slots.push({ chord, time: from, duration: to - from });
+    }
+    time = chordEnd;
+  });
+  return slots;
+};
+
+// An arrangement's chords as an editable progression, as Roman numerals so they follow key changes
+export const progressionFromArrangement = (arrangement: Arrangement): ProgressionChord[] =>
+  arrangement.sections.flatMap(section => section.chords.map(slot => ({
+    symbol: slot.chord.numeral ?? slot.chord.name,
+    bars: slot.duration / arrangement.beatsPerBar,
+  })));
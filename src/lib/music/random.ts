@@ -0,0 +1,66 @@
+// Seeded pseudo-random number generation for reproducible tracks.
+// All generation code should draw from an Rng created from the track seed
+// instead of calling Math.random(), so the same settings give the same track.
+
+export interface Rng {
+  // Float in [0, 1)
+  next: () => number;
+  // Integer in [min, max] (inclusive)
+  int: (min: number, max: number) => number;
+  // True with probability `p`
+  chance: (p: number) => boolean;
+  // Random element of a non-empty array
+  pick: <T>(items: readonly T[]) => T;
+  // Random element using relative weights
+  weighted: <T>(items: readonly T[], weights: readonly number[]) => T;
+  // Independent generator derived from this seed and a label, so adding draws
+  // to one part (e.g. the bass) doesn't change the output of another
+  fork: (label: string) => Rng;
+}
+
+export const MAX_SEED = 2 ** 31 - 1;
+
+// New seed for a fresh track; the only place generation touches Math.random()
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// 32-bit FNV-1a hash, used to derive sub-seeds from labels
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for musical decisions
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const rng: Rng = {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: p => next() < p,
+    pick: items => items[Math.floor(next() * items.length)],
+    weighted: (items, weights) => {
+      const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+      let target = next() * total;
+      for (let i = 0; i < items.length; i++) {
+        target -= Math.max(0, weights[i] ?? 0);
+        if (target < 0) return items[i];
+      }
+      return items[items.length - 1];
+    },
+    fork: label => createRng((seed ^ hashString(label)) >>> 0),
+  };
+
+  return rng;
+};
@@ -0,0 +1,151 @@
+import type { ReharmonizationSettings } from '@/hooks/audio/types';
+import type { ChordSlot } from './types';
+import type { Rng } from './random';
+import { buildChord, buildChordOn, getDiatonicChords, getScale, keySignature, type Chord, type ChordQuality, type Mode } from './theory';
+
+export const DEFAULT_REHARMONIZATION: ReharmonizationSettings = {
+  secondaryDominants: false,
+  iiV: false,
+  tritoneSubstitution: false,
+  borrowedChords: false,
+  extensions: false,
+};
+
+// Chords are borrowed from the parallel key: major-sounding modes borrow from minor and the other way round
+const PARALLEL_MODES: Record<Mode, Mode> = {
+  major: 'minor',
+  lydian: 'minor',
+  mixolydian: 'minor',
+  minor: 'major',
+  dorian: 'major',
+  phrygian: 'major',
+  locrian: 'major',
+};
+
+// Extended qualities for each basic one: the gentler first, the richer for tenser moods
+const EXTENSIONS: Partial<Record<ChordQuality, [ChordQuality, ChordQuality]>> = {
+  maj: ['maj9', 'maj13'],
+  maj7: ['maj9', 'maj13'],
+  min: ['min9', 'min11'],
+  min7: ['min9', 'min11'],
+  '7': ['9', '13'],
+};
+
+// Shortest chord, in quarter notes, that still has room for a ii-V in its second half
+const II_V_MIN_DURATION = 3;
+
+interface Step {
+  slot: ChordSlot;
+  altered: boolean; // Already replaced by an earlier pass
+}
+
+interface Context {
+  tonic: string;
+  flats: boolean; // Spell new roots with flats, like the key signature
+  tension: number;
+  rng: Rng;
+}
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+const isMinor = (chord: Chord) => chord.intervals[1] === 3;
+const isDiminished = (chord: Chord) => chord.intervals[1] === 3 && chord.intervals[2] === 6;
+
+// A major or dominant chord a fifth above the chord it moves to
+const resolvesTo = (chord: Chord, target: Chord) =>
+  (chord.quality === 'maj' || chord.quality === '7') && mod12(chord.rootPc - target.rootPc) === 7;
+
+// Swap diatonic chords for the same degree of the parallel key (IV -> iv, vi -> bVI in major)
+const borrowChords = (steps: Step[], key: string, mode: Mode, { tension, rng }: Context): Step[] => {
+  const parallel = getDiatonicChords(key, PARALLEL_MODES[mode]);
+  return steps.map((step, i) => {
+    const degree = step.slot.chord.degree;
+    if (i === 0 || degree === undefined || degree === 0 || !rng.chance(tension * 0.4)) return step;
+    const borrowed: Chord = { ...parallel[degree] };
+    delete borrowed.degree;
+    if (isDiminished(borrowed) || borrowed.quality === step.slot.chord.quality) return step;
+    return { slot: { ...step.slot, chord: borrowed }, altered: true };
+  });
+};
+
+// Lead into a chord with its ii-V, played in the second half of the chord before it
+const insertIIV = (steps: Step[], { tonic, flats, tension, rng }: Context): Step[] =>
+  steps.flatMap((step, i) => {
+    const target = steps[i + 1]?.slot.chord;
+    const { chord, time, duration } = step.slot;
+    if (
+      !target || step.altered || duration < II_V_MIN_DURATION || isDiminished(target) ||
+      resolvesTo(chord, target) || !rng.chance(tension * 0.5)
+    ) {
+      return [step];
+    }
+    const half = duration / 2;
+    const ii = buildChordOn(target.rootPc + 2, isMinor(target) ? 'm7b5' : 'min7', tonic, flats);
+    const v = buildChordOn(target.rootPc + 7, '7', tonic, flats);
+    return [
+      { slot: { ...step.slot, duration: half }, altered: false },
+      { slot: { chord: ii, time: time + half, duration: half / 2 }, altered: true },
+      { slot: { chord: v, time: time + half * 1.5, duration: half / 2 }, altered: true },
+    ];
+  });
+
+// Replace a chord with the dominant seventh of the diatonic chord that follows (V7/ii, V7/vi...)
+const secondaryDominants = (steps: Step[], { tonic, flats, tension, rng }: Context): Step[] =>
+  steps.map((step, i) => {
+    const target = steps[i + 1]?.slot.chord;
+    if (
+      i === 0 || step.altered || !target || target.degree === undefined || target.degree === 0 ||
+      isDiminished(target) || resolvesTo(step.slot.chord, target) || !rng.chance(tension * 0.5)
+    ) {
+      return step;
+    }
+    return { slot: { ...step.slot, chord: buildChordOn(target.rootPc + 7, '7', tonic, flats) }, altered: true };
+  });
+
+// Dominants resolving down a fifth become the dominant a tritone away (G7 -> C becomes Db7 -> C)
+const tritoneSubstitution = (steps: Step[], { tonic, tension, rng }: Context): Step[] =>
+  steps.map((step, i) => {
+    const target = steps[i + 1]?.slot.chord;
+    if (!target || !resolvesTo(step.slot.chord, target) || !rng.chance(tension * 0.6)) return step;
+    return { slot: { ...step.slot, chord: buildChordOn(step.slot.chord.rootPc + 6, '7', tonic, true) }, altered: true };
+  });
+
+// Add 9ths to most chords and 11ths or 13ths to some. Major triads acting as dominants
+// (the key's V, or any but the tonic that resolves down a fifth) are extended as dominants.
+const extendChords = (steps: Step[], { tonic, tension, rng }: Context): Step[] =>
+  steps.map((step, i) => {
+    const { chord } = step.slot;
+    const target = steps[i + 1]?.slot.chord;
+    const dominant = chord.quality === 'maj' && (chord.degree === 4 || (chord.degree !== 0 && target && resolvesTo(chord, target)));
+    const choices = EXTENSIONS[dominant ? '7' : chord.quality];
+    if (!choices || !rng.chance(0.3 + tension * 0.7)) return step;
+    const quality = choices[rng.chance(tension * 0.5) ? 1 : 0];
+    const extended: Chord = { ...buildChord(chord.root, quality, tonic), degree: chord.degree };
+    return { slot: { ...step.slot, chord: extended }, altered: step.altered };
+  });
+
+// Reharmonize a section's chords with the enabled techniques. Each technique draws from its own
+// random stream, so switching one on or off leaves the choices of the others as they were.
+export const reharmonize = (
+  slots: ChordSlot[],
+  key: string,
+  mode: Mode,
+  options: ReharmonizationSettings,
+  tension: number,
+  rng: Rng
+): ChordSlot[] => {
+  const context = (label: string): Context => ({
+    tonic: getScale(key, mode).tonic,
+    flats: keySignature(key, mode).accidentals < 0,
+    tension,
+    rng: rng.fork(label),
+  });
+
+  let steps: Step[] = slots.map(slot => ({ slot, altered: false }));
+  if (options.borrowedChords) steps = borrowChords(steps, key, mode, context('borrowed'));
+  if (options.iiV) steps = insertIIV(steps, context('ii-v'));
+  if (options.secondaryDominants) steps = secondaryDominants(steps, context('secondary'));
+  if (options.tritoneSubstitution) steps = tritoneSubstitution(steps, context('tritone'));
+  if (options.extensions) steps = extendChords(steps, context('extensions'));
+  return steps.map(step => step.slot);
+};
@@ -0,0 +1,94 @@
+import type { Rng } from './random';
+import type { Phrase } from './types';
+import type { ProgressionComplexity } from './moods';
+
+// A Markov model of chord progressions: which scale degree follows the last few, and which
+// rhythm cells phrases of each length use. Trained from example phrases (a genre's corpus or
+// the user's MIDI files) and sampled to write new ones.
+
+// Roman numerals name scale degrees of the track's mode; the case only documents the quality
+export const DEGREE_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+export const numeralDegree = (numeral: string): number => DEGREE_NUMERALS.indexOf(numeral.toUpperCase());
+
+const ORDER = 2;        // Chords of context for each choice
+const MAX_CHORDS = 8;   // Longest phrase written
+const START = '^';
+const END = '$';
+
+type Counts = Record<string, number>;
+
+export interface StyleModel {
+  transitions: Record<string, Counts>; // Context of up to ORDER degrees ("^ 0") -> next degree or END
+  rhythms: Record<number, Counts>;     // Chord count -> rhythm cell ("1 1 2")
+}
+
+const count = (counts: Counts, key: string) => {
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+const contextKey = (history: string[], length: number) => history.slice(history.length - length).join(' ');
+
+// Count every transition with every context length up to ORDER, so sampling can back off
+export const trainStyleModel = (phrases: Phrase[]): StyleModel => {
+  const model: StyleModel = { transitions: {}, rhythms: {} };
+
+  phrases.forEach(({ degrees, rhythm }) => {
+    const tokens = [...degrees.map(String), END];
+    const history = Array(ORDER).fill(START);
+    tokens.forEach(token => {
+      for (let length = 0; length <= ORDER; length++) {
+        const key = contextKey(history, length);
+        count(model.transitions[key] ??= {}, token);
+      }
+      history.push(token);
+    });
+    count(model.rhythms[degrees.length] ??= {}, rhythm.join(' '));
+  });
+
+  return model;
+};
+
+// Simple moods favour the most common moves, complex ones also try rare and unseen ones
+const sharpen = (weight: number, complexity: ProgressionComplexity) => {
+  if (complexity === 'simple') return weight * weight;
+  if (complexity === 'complex') return Math.pow(weight, 0.6) + 0.1;
+  return weight;
+};
+
+// Next token after `history`, from the longest context the model has seen
+const nextToken = (model: StyleModel, history: string[], complexity: ProgressionComplexity, rng: Rng, allowEnd: boolean): string => {
+  for (let length = ORDER; length >= 0; length--) {
+    const counts = model.transitions[contextKey(history, length)];
+    if (!counts) continue;
+    const options = Object.keys(counts).filter(token => allowEnd || token !== END);
+    if (options.length === 0) continue;
+    // Complex moods may also wander to degrees the corpus never uses after this context
+    const candidates = complexity === 'complex' && length > 0
+      ? [...options, ...DEGREE_NUMERALS.map((_, degree) => String(degree)).filter(token => !counts[token])]
+      : options;
+    return rng.weighted(candidates, candidates.map(token => sharpen(counts[token] || 0, complexity)));
+  }
+  return '0';
+};
+
+// Write a new phrase in the model's style, at least two chords long
+export const samplePhrase = (model: StyleModel, complexity: ProgressionComplexity, rng: Rng): Phrase => {
+  const history = Array(ORDER).fill(START);
+  const degrees: number[] = [];
+
+  while (degrees.length < MAX_CHORDS) {
+    const token = nextToken(model, history, complexity, rng, degrees.length >= 2);
+    if (token === END) break;
+    degrees.push(Number(token));
+    history.push(token);
+  }
+  if (degrees.length === 0) degrees.push(0);
+
+  const cells = model.rhythms[degrees.length];
+  const rhythm = cells
+    ? rng.weighted(Object.keys(cells), Object.values(cells).map(weight => sharpen(weight, complexity))).split(' ').map(Number)
+    : degrees.map(() => 1);
+
+  return { degrees, rhythm };
+};
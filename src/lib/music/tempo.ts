@@ -0,0 +1,106 @@
+import type { TempoEnding, TempoSettings, TempoTransition } from '@/hooks/audio/types';
+import type { Section, TempoPoint } from './types';
+
+export const DEFAULT_TEMPO: TempoSettings = { sectionOffsets: {}, transition: 'step', ending: 'none' };
+
+export const TEMPO_TRANSITIONS: TempoTransition[] = ['step', 'ramp'];
+export const TEMPO_ENDINGS: TempoEnding[] = ['none', 'ritardando', 'fermata'];
+
+const MIN_BPM = 20;
+const MAX_BPM = 300;
+
+const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+
+// Tempo inside a ramp. Ramps are linear in time (like Tone's and most DAWs' automation),
+// which makes the squared tempo linear in quarter notes.
+const rampBpm = (from: TempoPoint, to: TempoPoint, time: number): number => {
+  const progress = (time - from.time) / (to.time - from.time);
+  return Math.sqrt(from.bpm ** 2 + (to.bpm ** 2 - from.bpm ** 2) * progress);
+};
+
+// Build the tempo map for an arrangement: per-section tempos, the moves between them and the ending
+export const buildTempoMap = (
+  sections: Section[],
+  beatsPerBar: number,
+  bpm: number,
+  tempo: TempoSettings = DEFAULT_TEMPO
+): TempoPoint[] => {
+  const points: TempoPoint[] = [];
+
+  // Points are added in order; a new point replaces any at or after its time
+  const add = (time: number, value: number, ramp: boolean) => {
+    while (points.length > 0 && points[points.length - 1].time >= time) points.pop();
+    points.push({ time, bpm: clampBpm(value), ramp: ramp && points.length > 0 });
+  };
+
+  add(0, bpm, false);
+
+  sections.forEach(section => {
+    const target = clampBpm(bpm + (tempo.sectionOffsets[section.name] ?? 0));
+    const current = points[points.length - 1].bpm;
+    const start = section.startBar * beatsPerBar;
+    if (target === current) return;
+
+    if (tempo.transition === 'ramp' && start > 0) {
+      // Ramp over the last bar of the previous section
+      add(Math.max(0, start - beatsPerBar), current, false);
+      add(start, target, true);
+    } else {
+      add(start, target, false);
+    }
+  });
+
+  const totalBars = sections.reduce((sum, section) => sum + section.bars, 0);
+  const end = totalBars * beatsPerBar;
+  const final = points[points.length - 1].bpm;
+
+  if (tempo.ending === 'ritardando') {
+    // Slow down over the last two bars
+    add(Math.max(0, end - 2 * beatsPerBar), final, false);
+    add(end, final * 0.7, true);
+  } else if (tempo.ending === 'fermata') {
+    // Slow down into the last bar and hold it at under half tempo
+    const lastBar = Math.max(0, end - beatsPerBar);
+    if (lastBar > 0) {
+      add(Math.max(0, lastBar - beatsPerBar), final, false);
+      add(lastBar, final * 0.45, true);
+    } else {
+      add(0, final * 0.45, false);
+    }
+  }
+
+  return points;
+};
+
+// Tempo at a position in quarter notes
+export const tempoAt = (tempoMap: TempoPoint[], time: number): number => {
+  let index = 0;
+  while (index + 1 < tempoMap.length && tempoMap[index + 1].time <= time) index++;
+  const point = tempoMap[index];
+  const next = tempoMap[index + 1];
+  return next?.ramp ? rampBpm(point, next, time) : point.bpm;
+};
+
+// Seconds from the start of the track to a position in quarter notes
+export const secondsAt = (tempoMap: TempoPoint[], time: number): number =>
+  tempoMap.reduce((seconds, point, i) => {
+    if (point.time >= time) return seconds;
+    const next = tempoMap[i + 1];
+    const end = next ? Math.min(time, next.time) : time;
+    const endBpm = next?.ramp ? rampBpm(point, next, end) : point.bpm;
+    // Tempo changes linearly in time, so the average tempo is the mean of both ends
+    return seconds + ((end - point.time) * 120) / (point.bpm + endBpm);
+  }, 0);
+
+// The map as plain tempo jumps every `step` quarter notes through ramps, for formats without ramps (MIDI)
+export const steppedTempoMap = (tempoMap: TempoPoint[], step: number): { time: number; bpm: number }[] =>
+  tempoMap.flatMap((point, i) => {
+    const next = tempoMap[i + 1];
+    if (!next?.ramp) return [{ time: point.time, bpm: point.bpm }];
+    const steps: { time: number; bpm: number }[] = [];
+    // Each step takes the tempo from its middle so the total length stays close
+    for (let time = point.time; time < next.time - 1e-6; time += step) {
+      steps.push({ time, bpm: tempoAt(tempoMap, Math.min(next.time, time + step / 2)) });
+    }
+    return steps;
+  });
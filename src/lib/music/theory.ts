@@ -0,0 +1,357 @@
+// Shared music theory helpers: note spelling, scales and diatonic chords.
+// Everything that turns a key into actual notes should go through this module
+// so the progression generator, MIDI export and playback always agree.
+
+// Modes a track can be in; 'major' and 'minor' are the ionian and aeolian modes
+export type Mode =
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian';
+
+export type ScaleName =
+  | Mode
+  | 'harmonic-minor'
+  | 'melodic-minor'
+  | 'major-pentatonic'
+  | 'minor-pentatonic'
+  | 'blues';
+
+export type ChordQuality =
+  | 'maj'
+  | 'min'
+  | 'dim'
+  | 'aug'
+  | 'maj7'
+  | 'min7'
+  | '7'
+  | 'm7b5'
+  | 'dim7'
+  | 'minMaj7'
+  | 'augMaj7'
+  | 'maj9'
+  | 'min9'
+  | '9'
+  | 'min11'
+  | 'maj13'
+  | '13';
+
+export type ChordExtension = 'triad' | 'seventh';
+
+export interface Chord {
+  root: string;         // Spelled root, e.g. "F#"
+  rootPc: number;       // Pitch class of the root (0 = C)
+  quality: ChordQuality;
+  intervals: number[];  // Semitones above the root, root position
+  name: string;         // Chord symbol, e.g. "F#m7"
+  numeral?: string;     // Roman numeral relative to the major scale of the tonic
+  degree?: number;      // 0-based scale degree, when the chord is diatonic
+}
+
+export interface Scale {
+  tonic: string;
+  name: ScaleName;
+  notes: string[];
+  pitchClasses: number[];
+}
+
+// Tonics offered in the UI, one per pitch class
+export const TONICS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Modes offered in the UI, ordered from brightest to darkest after major/minor
+export const MODES: Mode[] = ['major', 'minor', 'lydian', 'mixolydian', 'dorian', 'phrygian', 'locrian'];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PCS = [0, 2, 4, 5, 7, 9, 11];
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+const MAJOR_STEPS = [0, 2, 4, 5, 7, 9, 11];
+
+// Scale interval tables. `degrees` is the letter offset used to spell each note,
+// so heptatonic scales get one letter per degree and the blues b5 is spelled as a flat fifth.
+export const SCALES: Record<ScaleName, { intervals: number[]; degrees: number[] }> = {
+  'major':            { intervals: [0, 2, 4, 5, 7, 9, 11], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'minor':            { intervals: [0, 2, 3, 5, 7, 8, 10], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'dorian':           { intervals: [0, 2, 3, 5, 7, 9, 10], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'phrygian':         { intervals: [0, 1, 3, 5, 7, 8, 10], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'lydian':           { intervals: [0, 2, 4, 6, 7, 9, 11], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'mixolydian':       { intervals: [0, 2, 4, 5, 7, 9, 10], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'locrian':          { intervals: [0, 1, 3, 5, 6, 8, 10], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'harmonic-minor':   { intervals: [0, 2, 3, 5, 7, 8, 11], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'melodic-minor':    { intervals: [0, 2, 3, 5, 7, 9, 11], degrees: [0, 1, 2, 3, 4, 5, 6] },
+  'major-pentatonic': { intervals: [0, 2, 4, 7, 9], degrees: [0, 1, 2, 4, 5] },
+  'minor-pentatonic': { intervals: [0, 3, 5, 7, 10], degrees: [0, 2, 3, 4, 6] },
+  'blues':            { intervals: [0, 3, 5, 6, 7, 10], degrees: [0, 2, 3, 4, 4, 6] },
+};
+
+// Chord qualities keyed by their interval structure
+const CHORD_QUALITIES: Record<ChordQuality, { intervals: number[]; suffix: string; minor: boolean; numeralSuffix: string }> = {
+  'maj':     { intervals: [0, 4, 7], suffix: '', minor: false, numeralSuffix: '' },
+  'min':     { intervals: [0, 3, 7], suffix: 'm', minor: true, numeralSuffix: '' },
+  'dim':     { intervals: [0, 3, 6], suffix: 'dim', minor: true, numeralSuffix: '°' },
+  'aug':     { intervals: [0, 4, 8], suffix: 'aug', minor: false, numeralSuffix: '+' },
+  'maj7':    { intervals: [0, 4, 7, 11], suffix: 'maj7', minor: false, numeralSuffix: 'maj7' },
+  'min7':    { intervals: [0, 3, 7, 10], suffix: 'm7', minor: true, numeralSuffix: '7' },
+  '7':       { intervals: [0, 4, 7, 10], suffix: '7', minor: false, numeralSuffix: '7' },
+  'm7b5':    { intervals: [0, 3, 6, 10], suffix: 'm7b5', minor: true, numeralSuffix: 'ø7' },
+  'dim7':    { intervals: [0, 3, 6, 9], suffix: 'dim7', minor: true, numeralSuffix: '°7' },
+  'minMaj7': { intervals: [0, 3, 7, 11], suffix: 'm(maj7)', minor: true, numeralSuffix: '(maj7)' },
+  'augMaj7': { intervals: [0, 4, 8, 11], suffix: 'maj7#5', minor: false, numeralSuffix: '+maj7' },
+  'maj9':    { intervals: [0, 4, 7, 11, 14], suffix: 'maj9', minor: false, numeralSuffix: 'maj9' },
+  'min9':    { intervals: [0, 3, 7, 10, 14], suffix: 'm9', minor: true, numeralSuffix: '9' },
+  '9':       { intervals: [0, 4, 7, 10, 14], suffix: '9', minor: false, numeralSuffix: '9' },
+  'min11':   { intervals: [0, 3, 7, 10, 14, 17], suffix: 'm11', minor: true, numeralSuffix: '11' },
+  'maj13':   { intervals: [0, 4, 7, 11, 14, 21], suffix: 'maj13', minor: false, numeralSuffix: 'maj13' },
+  '13':      { intervals: [0, 4, 7, 10, 14, 21], suffix: '13', minor: false, numeralSuffix: '13' },
+};
+
+interface ParsedNote {
+  letterIndex: number;
+  accidental: number;
+  pc: number;
+}
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+const accidentalString = (accidental: number) =>
+  accidental > 0 ? '#'.repeat(accidental) : 'b'.repeat(-accidental);
+
+// Parse a note name such as "F#", "Bb" or "C" (octave numbers are ignored)
+const parseNote = (name: string): ParsedNote => {
+  const match = /^([A-Ga-g])([#b]*)/.exec(name.trim());
+  if (!match) {
+    throw new Error(`Invalid note name: ${name}`);
+  }
+  const letterIndex = LETTERS.indexOf(match[1].toUpperCase());
+  const accidental = [...match[2]].reduce((sum, ch) => sum + (ch === '#' ? 1 : -1), 0);
+  return { letterIndex, accidental, pc: mod12(LETTER_PCS[letterIndex] + accidental) };
+};
+
+// Spell the pitch class `pc` using the letter `letterOffset` steps above `tonic`
+const spellWithLetter = (tonic: ParsedNote, letterOffset: number, pc: number): string => {
+  const letterIndex = (tonic.letterIndex + letterOffset) % 7;
+  // Keep the accidental in the -6..5 range so e.g. B# is not spelled as B-11
+  const accidental = mod12(pc - LETTER_PCS[letterIndex] + 6) - 6;
+  return LETTERS[letterIndex] + accidentalString(accidental);
+};
+
+// Enharmonic equivalent on the neighbouring letter (F# <-> Gb), or the note itself for naturals
+const enharmonic = (name: string): string => {
+  const note = parseNote(name);
+  if (note.accidental === 0) return name;
+  const offset = note.accidental > 0 ? 1 : 6;
+  return spellWithLetter({ letterIndex: note.letterIndex, accidental: 0, pc: LETTER_PCS[note.letterIndex] }, offset, note.pc);
+};
+
+const hasDoubleAccidental = (name: string) => Math.abs(parseNote(name).accidental) > 1;
+
+export const noteToPitchClass = (name: string): number => parseNote(name).pc;
+
+// Spell a pitch class without key context
+export const pitchClassToName = (pc: number, preferFlats = false): string =>
+  (preferFlats ? FLAT_NAMES : SHARP_NAMES)[mod12(pc)];
+
+// Convert a note name and octave to a MIDI number (C4 = 60)
+export const noteToMidi = (name: string, octave: number): number => {
+  const note = parseNote(name);
+  return (octave + 1) * 12 + LETTER_PCS[note.letterIndex] + note.accidental;
+};
+
+// Convert a MIDI number to a name such as "C#4" (the format MidiWriter and Tone accept)
+export const midiToNoteName = (midi: number, preferFlats = false): string =>
+  `${pitchClassToName(midi, preferFlats)}${Math.floor(midi / 12) - 1}`;
+
+export const midiToFrequency = (midi: number): number => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Pick the spelling of a tonic that avoids double sharps/flats in the given scale,
+// e.g. "A#" major becomes "Bb" major while "F#" major stays as it is.
+export const resolveTonic = (tonic: string, scale: ScaleName = 'major'): string => {
+  const spelled = spellScale(tonic, scale);
+  if (!spelled.some(hasDoubleAccidental)) return tonic;
+  const alternative = enharmonic(tonic);
+  return spellScale(alternative, scale).some(hasDoubleAccidental) ? tonic : alternative;
+};
+
+const spellScale = (tonic: string, scale: ScaleName): string[] => {
+  const parsed = parseNote(tonic);
+  const { intervals, degrees } = SCALES[scale];
+  return intervals.map((interval, i) => spellWithLetter(parsed, degrees[i], mod12(parsed.pc + interval)));
+};
+
+// Get the correctly spelled notes of a scale
+export const getScale = (tonic: string, scale: ScaleName = 'major'): Scale => {
+  const resolved = resolveTonic(tonic, scale);
+  const notes = spellScale(resolved, scale);
+  return {
+    tonic: resolved,
+    name: scale,
+    notes,
+    pitchClasses: notes.map(noteToPitchClass),
+  };
+};
+
+const qualityFromIntervals = (intervals: number[]): ChordQuality | undefined =>
+  (Object.keys(CHORD_QUALITIES) as ChordQuality[]).find(quality => {
+    const candidate = CHORD_QUALITIES[quality].intervals;
+    return candidate.length === intervals.length && candidate.every((value, i) => value === intervals[i]);
+  });
+
+// Roman numeral for a chord built on `rootPc`, relative to the major scale of `tonicPc`
+// (so a minor key's mediant reads "bIII" and borrowed chords keep unambiguous names)
+export const romanNumeral = (rootPc: number, tonicPc: number, quality: ChordQuality): string => {
+  const semitones = mod12(rootPc - tonicPc);
+  let step = MAJOR_STEPS.indexOf(semitones);
+  let prefix = '';
+  if (step === -1) {
+    // Non-diatonic roots are named as a flattened major-scale degree
+    step = MAJOR_STEPS.indexOf(semitones + 1);
+    prefix = 'b';
+  }
+  const { minor, numeralSuffix } = CHORD_QUALITIES[quality];
+  const numeral = minor ? NUMERALS[step].toLowerCase() : NUMERALS[step];
+  return `${prefix}${numeral}${numeralSuffix}`;
+};
+
+// Build a chord from a spelled root and a quality
+export const buildChord = (root: string, quality: ChordQuality, tonic?: string): Chord => {
+  const rootPc = noteToPitchClass(root);
+  const chord: Chord = {
+    root,
+    rootPc,
+    quality,
+    intervals: [...CHORD_QUALITIES[quality].intervals],
+    name: `${root}${CHORD_QUALITIES[quality].suffix}`,
+  };
+  if (tonic) {
+    chord.numeral = romanNumeral(rootPc, noteToPitchClass(tonic), quality);
+  }
+  return chord;
+};
+
+// Build a chord on a pitch class, spelled with sharps or flats
+export const buildChordOn = (rootPc: number, quality: ChordQuality, tonic?: string, preferFlats = false): Chord =>
+  buildChord(pitchClassToName(rootPc, preferFlats), quality, tonic);
+
+// Diatonic triads or seventh chords for every degree of a heptatonic scale
+export const getDiatonicChords = (
+  tonic: string,
+  scale: ScaleName = 'major',
+  extension: ChordExtension = 'triad'
+): Chord[] => {
+  const { notes, pitchClasses, tonic: resolvedTonic } = getScale(tonic, scale);
+  if (notes.length !== 7) {
+    throw new Error(`Diatonic chords need a seven-note scale, got ${scale}`);
+  }
+
+  const stackSize = extension === 'seventh' ? 4 : 3;
+  return notes.map((root, degree) => {
+    const intervals = Array.from({ length: stackSize }, (_, i) =>
+      mod12(pitchClasses[(degree + i * 2) % 7] - pitchClasses[degree])
+    );
+    const quality = qualityFromIntervals(intervals);
+    if (!quality) {
+      throw new Error(`Unsupported chord structure on ${root}: ${intervals.join(',')}`);
+    }
+    return { ...buildChord(root, quality, resolvedTonic), degree };
+  });
+};
+
+// MIDI notes of a chord in root position, starting from the root in `octave`
+export const chordToMidi = (chord: Chord, octave: number = 4): number[] => {
+  const rootMidi = noteToMidi(chord.root, octave);
+  return chord.intervals.map(interval => rootMidi + interval);
+};
+
+// MIDI note for a scale degree (0-based, may exceed the scale length to wrap octaves)
+export const scaleDegreeToMidi = (scale: Scale, degree: number, octave: number = 4): number => {
+  const size = scale.notes.length;
+  const octaveShift = Math.floor(degree / size);
+  const index = ((degree % size) + size) % size;
+  const tonicMidi = noteToMidi(scale.tonic, octave);
+  return tonicMidi + mod12(scale.pitchClasses[index] - scale.pitchClasses[0]) + octaveShift * 12;
+};
+
+// Semitones from each mode's tonic up to the tonic of its parent major scale
+const MODE_TO_MAJOR: Record<Mode, number> = {
+  major: 0,
+  dorian: 10,
+  phrygian: 8,
+  lydian: 7,
+  mixolydian: 5,
+  minor: 3,
+  locrian: 1,
+};
+
+const MINOR_MODES: Mode[] = ['minor', 'dorian', 'phrygian', 'locrian'];
+
+// A tonic moved by `semitones`, named like the UI's tonics
+export const transposeKey = (tonic: string, semitones: number): string =>
+  TONICS[mod12(noteToPitchClass(tonic) + semitones)];
+
+// Tonic of the major scale a mode is built from (A minor and B locrian both come from C)
+export const parentMajor = (tonic: string, mode: Mode): string => transposeKey(tonic, MODE_TO_MAJOR[mode]);
+
+// The relative key: minor-sounding modes go to their parent major, the others to its relative minor
+export const relativeKey = (tonic: string, mode: Mode): { key: string; mode: Mode } => {
+  const parent = parentMajor(tonic, mode);
+  return MINOR_MODES.includes(mode)
+    ? { key: parent, mode: 'major' }
+    : { key: transposeKey(parent, 9), mode: 'minor' };
+};
+
+// Key signature as a MIDI file stores it: sharps (positive) or flats (negative), and whether the key is minor
+export const keySignature = (tonic: string, mode: Mode): { accidentals: number; minor: boolean } => {
+  const accidentals = getScale(tonic, mode).notes.reduce((sum, note) => sum + parseNote(note).accidental, 0);
+  return { accidentals, minor: MINOR_MODES.includes(mode) };
+};
+
+// Chord symbol suffixes people type, beyond the ones chords are named with
+const SUFFIX_ALIASES: Record<string, ChordQuality> = {
+  'min': 'min', '-': 'min', '°': 'dim', 'o': 'dim', '+': 'aug',
+  'M7': 'maj7', 'Δ': 'maj7', 'Δ7': 'maj7', 'min7': 'min7', '-7': 'min7',
+  'ø': 'm7b5', 'ø7': 'm7b5', '°7': 'dim7', 'o7': 'dim7', 'mMaj7': 'minMaj7', '+maj7': 'augMaj7',
+};
+
+// Quality from a chord symbol suffix ("m7", "dim", "maj7#5")
+const suffixQuality = (suffix: string): ChordQuality | undefined =>
+  (Object.keys(CHORD_QUALITIES) as ChordQuality[]).find(quality => CHORD_QUALITIES[quality].suffix === suffix) ??
+  SUFFIX_ALIASES[suffix];
+
+// Quality from a Roman numeral's case and suffix ("ii7", "viiø7", "V7")
+const numeralQuality = (minor: boolean, suffix: string): ChordQuality | undefined => {
+  if (suffix === '7') return minor ? 'min7' : '7';
+  if (suffix === 'maj7') return minor ? 'minMaj7' : 'maj7';
+  const quality = (Object.keys(CHORD_QUALITIES) as ChordQuality[]).find(candidate =>
+    CHORD_QUALITIES[candidate].minor === minor && CHORD_QUALITIES[candidate].numeralSuffix === suffix
+  ) ?? SUFFIX_ALIASES[suffix];
+  return quality && CHORD_QUALITIES[quality].minor === minor ? quality : undefined;
+};
+
+// Parse a chord name ("F#m7") or a Roman numeral ("bVII", "ii7") in a key. Numerals are
+// relative to the major scale of the tonic, like the ones chords are labelled with.
+// Returns null for anything that isn't a chord.
+export const parseChordSymbol = (symbol: string, tonic: string, mode: Mode): Chord | null => {
+  const text = symbol.trim();
+  const resolvedTonic = resolveTonic(tonic, mode);
+
+  const named = /^([A-G][#b]?)(.*)$/.exec(text);
+  if (named) {
+    const quality = suffixQuality(named[2]);
+    return quality ? buildChord(named[1], quality, resolvedTonic) : null;
+  }
+
+  const numeral = /^([#b]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(.*)$/.exec(text);
+  if (!numeral) return null;
+  const minor = numeral[2] === numeral[2].toLowerCase();
+  const quality = numeralQuality(minor, numeral[3]);
+  if (!quality) return null;
+  const step = NUMERALS.indexOf(numeral[2].toUpperCase());
+  const shift = numeral[1] === '#' ? 1 : numeral[1] === 'b' ? -1 : 0;
+  const parsedTonic = parseNote(resolvedTonic);
+  const root = spellWithLetter(parsedTonic, step, mod12(parsedTonic.pc + MAJOR_STEPS[step] + shift));
+  return buildChord(root, quality, resolvedTonic);
+};
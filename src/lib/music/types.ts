@@ -0,0 +1,67 @@
+import type { InstrumentType } from '@/hooks/audio/types';
+import type { Chord, Mode } from './theory';
+import type { TimeSignature } from './meter';
+
+// Shared types for generated music. All times and durations are measured in
+// quarter notes from the start of the track, so both the MIDI writer (ticks)
+// and Tone.Transport can convert them without knowing the tempo.
+
+export interface NoteEvent {
+  time: number;
+  duration: number;
+  midi: number;
+  velocity: number; // 0-1
+}
+
+export interface ChordSlot {
+  chord: Chord;
+  time: number;
+  duration: number;
+  push?: number; // Quarter notes the chord arrives ahead of the beat it belongs to
+}
+
+// The part of a chord slot inside one bar, so bar-long rhythm patterns
+// can be laid over any harmonic rhythm
+export interface SlotPiece {
+  slot: ChordSlot;    // Same chord, cut to the bar
+  barOffset: number;  // Where the piece starts within its bar
+  last: boolean;      // The chord changes after this piece
+}
+
+// A progression as scale degrees of the section's mode, with each chord's length in chord slots
+export interface Phrase {
+  degrees: number[];
+  rhythm: number[];
+}
+
+export type SectionName = 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro';
+
+export interface Section {
+  name: SectionName;
+  label: string;         // Display name, e.g. "Chorus 2"
+  startBar: number;      // 0-based bar index within the track
+  bars: number;
+  key: string;           // Local key, which differs from the track's key after a modulation
+  mode: Mode;
+  chords: ChordSlot[];
+  density: number;       // 0-1, how busy the parts should be
+  instruments: Record<InstrumentType, boolean>;
+}
+
+// A tempo change at `time`. Ramped points are reached gradually from the
+// previous point instead of jumping there.
+export interface TempoPoint {
+  time: number;
+  bpm: number;
+  ramp: boolean;
+}
+
+export interface Arrangement {
+  sections: Section[];
+  totalBars: number;
+  beatsPerBar: number;   // Quarter notes per bar (3.5 in 7/8)
+  timeSignature: TimeSignature;
+  tempoMap: TempoPoint[]; // Always starts at time 0
+}
+
+export type InstrumentParts = Record<InstrumentType, NoteEvent[]>;
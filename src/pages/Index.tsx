@@ -3,17 +3,39 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { toast as sonnerToast } from "@/components/ui/sonner";
-import { Play, Pause, ChevronDown, Download, RefreshCw, FileMusic } from "lucide-react";
+import { Play, Pause, Square, ChevronDown, Dices, Download, RefreshCw, FileMusic } from "lucide-react";
 import { useAudioContext } from "@/hooks/useAudioContext";
-import { useTrackAudio, type TrackSettings } from "@/hooks/audio/useTrackAudio";
+import { useTrackAudio, type InstrumentType, type TrackSettings } from "@/hooks/audio/useTrackAudio";
 import { useTrackSamples } from "@/hooks/audio/useTrackSamples";
+import { useGenres } from "@/hooks/useGenres";
+import { useStyleProfile } from "@/hooks/useStyleProfile";
 import TestTone from "@/components/TestTone";
 import DebugPanel from "@/components/DebugPanel";
 import Meters from "@/components/Meters";
 import InstrumentFader from "@/components/InstrumentFader";
 import GenreSelector from "@/components/GenreSelector";
-import { generateChordProgression } from "@/lib/utils";
+import { generateArrangement } from "@/lib/music/arrangement";
+import { renderInstrumentPart } from "@/lib/music/parts";
+import { randomSeed } from "@/lib/music/random";
+import { DEFAULT_GROOVE } from "@/lib/music/groove";
+import { getGenre } from "@/lib/music/genres";
+import { moodSuggestions } from "@/lib/music/moods";
+import { DEFAULT_TEMPO } from "@/lib/music/tempo";
+import { DEFAULT_MODULATION } from "@/lib/music/modulation";
+import { DEFAULT_HARMONIC_RHYTHM, progressionBars } from "@/lib/music/progressions";
+import { DEFAULT_LOCKS, rerollSettings } from "@/lib/music/locks";
+import { DEFAULT_REHARMONIZATION } from "@/lib/music/reharmonize";
 import SampleManager from "@/components/SampleManager";
+import ArrangementView from "@/components/ArrangementView";
+import TransportTimeline from "@/components/TransportTimeline";
+import ProgressionEditor from "@/components/ProgressionEditor";
+import GrooveControls from "@/components/GrooveControls";
+import TempoControls from "@/components/TempoControls";
+import StyleControls from "@/components/StyleControls";
+import ReharmonizationControls from "@/components/ReharmonizationControls";
+import HarmonicRhythmControls from "@/components/HarmonicRhythmControls";
+import { PATTERN_VOICES } from "@/audio/voices";
+import { defaultSamples } from "@/audio/defaultSamples";
 
 const Index = () => {
   const { toast } = useToast();
@@ -42,19 +64,51 @@ const Index = () => {
     resetContext: audioContext.resetContext,
   });
   
+  // Bundled and imported genres
+  const { genres, importGenre } = useGenres();
+  
+  // Personal chord style learned from imported MIDI
+  const { profile: styleProfile, importMidi, removeFile: removeStyleFile } = useStyleProfile();
+  
   // State for track settings
   const [trackSettings, setTrackSettings] = useState<TrackSettings>({
     genre: "rock",
     mood: "energetic",
     bpm: 120,
     key: "C",
+    mode: "major",
     duration: 16,
+    seed: randomSeed(),
+    melody: false,
+    timeSignature: "4/4",
+    groove: DEFAULT_GROOVE,
+    tempo: DEFAULT_TEMPO,
+    modulation: DEFAULT_MODULATION,
+    chordStyle: "genre",
+    reharmonization: DEFAULT_REHARMONIZATION,
+    harmonicRhythm: DEFAULT_HARMONIC_RHYTHM,
+    progression: null,
+    locks: DEFAULT_LOCKS,
+    partSeeds: {},
   });
   
-  // Memoize chord progression generation to prevent unnecessary recomputation
-  const getChordProgression = useCallback((key: string, genre: string, mood: string) => {
-    return generateChordProgression(key, genre, mood);
-  }, []);
+  // The melody channel only shows in the mixer when the generated track has one
+  const mixerInstruments = useMemo(
+    () => trackAudio.instruments.filter(instrument => instrument.id !== 'melody' || trackAudio.trackSettings.melody),
+    [trackAudio.instruments, trackAudio.trackSettings.melody]
+  );
+  
+  // Chords for the current settings and personal style, so progression edits and style imports
+  // show before the next generation. The editor works on the progression under the
+  // reharmonization and pushes, on whole beats.
+  const editorArrangement = useMemo(
+    () => generateArrangement({
+      ...trackSettings,
+      reharmonization: DEFAULT_REHARMONIZATION,
+      harmonicRhythm: { ...trackSettings.harmonicRhythm, push: false },
+    }, styleProfile),
+    [trackSettings, styleProfile]
+  );
   
   // Compute disabled state for UI controls to prevent freezes
   const controlsDisabled = resetInProgress || trackAudio.isLoading || downloadInProgress || isPending || !samplesLoaded;
@@ -126,7 +180,7 @@ const Index = () => {
   };
   
   // Handle generate button click with improved concurrency protection
-  const handleGenerate = async () => {
+  const handleGenerate = async (settings: TrackSettings = trackSettings) => {
     console.debug('[INDEX] generate track start');
     if (!audioContext.isLoaded) {
       sonnerToast("Audio System Not Ready", {
@@ -159,17 +213,13 @@ const Index = () => {
             duration: 3000,
           });
           
-          await trackAudio.generateTrack(trackSettings);
+          await trackAudio.generateTrack(settings);
           
-          // Generate chord progression (just for display in this version)
-          const progression = getChordProgression(
-            trackSettings.key, 
-            trackSettings.genre, 
-            trackSettings.mood
-          );
+          // Summarise the song form for the toast
+          const arrangement = generateArrangement(settings);
           
           sonnerToast("Track Generated", {
-            description: `Created ${trackSettings.genre} track in ${trackSettings.key} with progression: ${progression.join(' - ')}`,
+            description: `Created ${settings.genre} track in ${settings.key} ${settings.mode}: ${arrangement.sections.map(section => section.label).join(' → ')}`,
             dismissible: true,
             duration: 5000,
           });
@@ -204,6 +254,45 @@ const Index = () => {
     });
   };
   
+  // New take with another seed, keeping locked chords and parts
+  const handleReroll = () => {
+    const rerolled = rerollSettings(trackSettings, randomSeed());
+    setTrackSettings(rerolled);
+    handleGenerate(rerolled);
+  };
+  
+  // Locks are saved with the generated track straight away, so they survive a session restore
+  const setLocks = (locks: TrackSettings['locks']) => {
+    setTrackSettings({ ...trackSettings, locks });
+    trackAudio.setTrackSettings(prev => ({ ...prev, locks }));
+  };
+  
+  // Pin an instrument's part as it currently plays, or release it
+  const handleTogglePartLock = (id: InstrumentType) => {
+    const parts = { ...trackSettings.locks.parts };
+    if (parts[id]) {
+      delete parts[id];
+    } else {
+      parts[id] = renderInstrumentPart(id, trackAudio.arrangement, trackAudio.trackSettings);
+    }
+    setLocks({ ...trackSettings.locks, parts });
+  };
+  
+  // Take over locks, edited chords and re-rolled instruments from the generated track, each only
+  // when it changes there, so re-rolling a part doesn't overwrite chord edits not yet applied
+  const generatedLocks = trackAudio.trackSettings.locks;
+  const generatedProgression = trackAudio.trackSettings.progression;
+  const generatedPartSeeds = trackAudio.trackSettings.partSeeds;
+  useEffect(() => {
+    setTrackSettings(prev => ({ ...prev, locks: generatedLocks }));
+  }, [generatedLocks]);
+  useEffect(() => {
+    setTrackSettings(prev => ({ ...prev, progression: generatedProgression }));
+  }, [generatedProgression]);
+  useEffect(() => {
+    setTrackSettings(prev => ({ ...prev, partSeeds: generatedPartSeeds }));
+  }, [generatedPartSeeds]);
+  
   // Handle download track with concurrency protection
   const handleDownloadTrack = async () => {
     console.debug('[INDEX] download WAV start');
@@ -319,6 +408,55 @@ const Index = () => {
     }
   }, [audioContext.error]);
 
+  // Switching genre brings its feel, a tempo in its range and its default mix
+  const handleGenreChange = (genre: string) => {
+    const definition = getGenre(genre);
+    const [minBpm, maxBpm] = definition.tempo;
+    setTrackSettings({
+      ...trackSettings,
+      genre,
+      groove: definition.groove,
+      reharmonization: definition.reharmonization,
+      bpm: Math.min(maxBpm, Math.max(minBpm, trackSettings.bpm)),
+    });
+    Object.entries(definition.mix).forEach(([id, volume]) => trackAudio.setInstrumentVolume(id as InstrumentType, volume));
+  };
+  
+  // Add a genre from a user's JSON file
+  const handleImportGenre = async (file: File) => {
+    const result = await importGenre(file);
+    if ('error' in result) {
+      toast({
+        title: "Genre Import Failed",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Genre Imported",
+      description: `${result.genre.name} is now available`
+    });
+    handleGenreChange(result.genre.id);
+  };
+  
+  const handleImportMidi = async (file: File) => {
+    const result = await importMidi(file);
+    if ('error' in result) {
+      toast({
+        title: "MIDI Import Failed",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    toast({
+      title: "Style Updated",
+      description: `Learned ${result.phrases} phrases from ${file.name}`
+    });
+    setTrackSettings(prev => ({ ...prev, chordStyle: 'personal' }));
+  };
+  
   // Fix for debug mode toggle and button click handlers
   const handleDebugToggle = (checked: boolean) => {
     console.log("Debug mode toggled:", checked);
@@ -350,21 +488,67 @@ const Index = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
             <GenreSelector 
               genre={trackSettings.genre}
-              setGenre={(genre) => setTrackSettings({...trackSettings, genre})}
+              setGenre={handleGenreChange}
+              genres={genres}
+              onImportGenre={handleImportGenre}
               mood={trackSettings.mood}
-              setMood={(mood) => setTrackSettings({...trackSettings, mood})}
+              setMood={(mood) => setTrackSettings({...trackSettings, mood, ...moodSuggestions(mood, trackSettings.bpm, trackSettings.mode)})}
               bpm={trackSettings.bpm}
               setBpm={(bpm) => setTrackSettings({...trackSettings, bpm})}
               musicalKey={trackSettings.key}
               setMusicalKey={(key) => setTrackSettings({...trackSettings, key})}
+              mode={trackSettings.mode}
+              setMode={(mode) => setTrackSettings({...trackSettings, mode})}
+              seed={trackSettings.seed}
+              setSeed={(seed) => setTrackSettings({...trackSettings, seed, partSeeds: {}})}
+              duration={trackSettings.duration}
+              setDuration={(duration) => setTrackSettings({...trackSettings, duration, progression: null})}
+              melody={trackSettings.melody}
+              setMelody={(melody) => setTrackSettings({...trackSettings, melody})}
+              timeSignature={trackSettings.timeSignature}
+              setTimeSignature={(timeSignature) => setTrackSettings({...trackSettings, timeSignature})}
+              modulation={trackSettings.modulation}
+              setModulation={(modulation) => setTrackSettings({...trackSettings, modulation})}
             />
             
             <div className="flex flex-col space-y-4">
-              <SampleManager />
+              <GrooveControls
+                groove={trackSettings.groove}
+                setGroove={(groove) => setTrackSettings({...trackSettings, groove})}
+                melody={trackSettings.melody}
+              />
+              <TempoControls
+                tempo={trackSettings.tempo}
+                setTempo={(tempo) => setTrackSettings({...trackSettings, tempo})}
+                bpm={trackSettings.bpm}
+              />
+              <StyleControls
+                chordStyle={trackSettings.chordStyle}
+                setChordStyle={(chordStyle) => setTrackSettings({...trackSettings, chordStyle})}
+                genreName={getGenre(trackSettings.genre).name}
+                profile={styleProfile}
+                onImportMidi={handleImportMidi}
+                onRemoveFile={removeStyleFile}
+              />
+              <ReharmonizationControls
+                reharmonization={trackSettings.reharmonization}
+                setReharmonization={(reharmonization) => setTrackSettings({...trackSettings, reharmonization})}
+                mood={trackSettings.mood}
+              />
+              <HarmonicRhythmControls
+                harmonicRhythm={trackSettings.harmonicRhythm}
+                setHarmonicRhythm={(harmonicRhythm) => setTrackSettings({...trackSettings, harmonicRhythm})}
+                mood={trackSettings.mood}
+                edited={!!trackSettings.progression?.length}
+              />
+              <SampleManager
+                kitAssignments={Object.fromEntries(trackAudio.instruments.map(instrument => [instrument.id, instrument.kit?.id ?? null]))}
+                onUseKit={trackAudio.setInstrumentKit}
+              />
               <div className="flex flex-wrap justify-between items-center gap-2">
                 <div className="flex gap-2">
                   <Button 
-                    onClick={handleGenerate}
+                    onClick={() => handleGenerate()}
                     disabled={controlsDisabled}
                     className="bg-studio-accent hover:bg-studio-highlight text-white relative"
                     type="button"
@@ -377,6 +561,18 @@ const Index = () => {
                     Generate Track
                   </Button>
                   
+                  <Button
+                    onClick={handleReroll}
+                    disabled={controlsDisabled}
+                    variant="outline"
+                    className="flex items-center gap-1"
+                    title="Generate with a new seed, keeping locked chords and parts"
+                    type="button"
+                  >
+                    <Dices className="w-4 h-4" />
+                    <span>Re-roll Unlocked</span>
+                  </Button>
+                  
                   <Button
                     onClick={handleResetAudioSystem}
                     disabled={controlsDisabled}
@@ -410,6 +606,17 @@ const Index = () => {
                     )}
                   </Button>
                   
+                  <Button
+                    onClick={() => trackAudio.stop()}
+                    disabled={controlsDisabled || !trackAudio.isTrackGenerated}
+                    variant="outline"
+                    size="icon"
+                    type="button"
+                    title="Stop and return to the start"
+                  >
+                    <Square className="w-4 h-4" />
+                  </Button>
+                  
                   <Button
                     onClick={handleDownloadMidi}
                     disabled={controlsDisabled || !trackAudio.isTrackGenerated}
@@ -443,15 +650,40 @@ const Index = () => {
             </div>
           </div>
           
+          {/* Song Form */}
+          {trackAudio.isTrackGenerated && (
+            <>
+              <ArrangementView arrangement={trackAudio.arrangement} />
+              <TransportTimeline
+                arrangement={trackAudio.arrangement}
+                position={trackAudio.position}
+                loopRegion={trackAudio.loopRegion}
+                onSeek={trackAudio.seek}
+                onLoopRegionChange={trackAudio.setLoopRegion}
+              />
+            </>
+          )}
+          
+          {/* Chords, editable bar by bar; an edited progression sets the track length */}
+          <ProgressionEditor
+            arrangement={editorArrangement}
+            progression={trackSettings.progression}
+            setProgression={(progression) => setTrackSettings({
+              ...trackSettings,
+              progression,
+              duration: progression ? Math.ceil(progressionBars(progression) - 1e-6) : trackSettings.duration,
+            })}
+          />
+          
           {/* Meters and Faders */}
           <div className="bg-[#232436] rounded-lg p-4 mb-6">
             <Meters 
-              instruments={trackAudio.instruments} 
+              instruments={mixerInstruments} 
               masterValue={trackAudio.masterMeterValue} 
             />
             
             <div className="flex justify-center space-x-8 mt-6">
-              {trackAudio.instruments.map((instrument) => (
+              {mixerInstruments.map((instrument) => (
                 <InstrumentFader
                   key={instrument.id}
                   name={instrument.name}
@@ -460,6 +692,12 @@ const Index = () => {
                     instrument.id as any, 
                     value
                   )}
+                  source={PATTERN_VOICES[instrument.id] && defaultSamples[instrument.id] ? instrument.source : undefined}
+                  onSourceChange={(source) => trackAudio.setInstrumentSource(instrument.id, source)}
+                  locked={!!trackSettings.locks.parts[instrument.id]}
+                  onLockChange={trackAudio.isTrackGenerated ? () => handleTogglePartLock(instrument.id) : undefined}
+                  onRegenerate={trackAudio.isTrackGenerated && !trackAudio.isLoading ? () => trackAudio.regenerateInstrument(instrument.id) : undefined}
+                  loading={instrument.loadingState === 'loading'}
                 />
               ))}
               
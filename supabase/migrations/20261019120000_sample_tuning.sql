@@ -0,0 +1,5 @@
+-- Tempo and key each sample was recorded in, so playback can stretch and shift it to the track.
+-- Keys are written like chord names ("A", "F#m"); unpitched samples leave the key empty.
+alter table public.samples
+  add column bpm numeric check (bpm > 0),
+  add column key text;
@@ -0,0 +1,17 @@
+-- Multi-sample instruments ("kits") built from uploaded one-shots. One-shots are rows of
+-- samples that belong to a kit; rows without a kit are loops, as before.
+create table public.sample_kits (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  instrument_type public.instrument_type not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- root_note: MIDI note the one-shot was recorded at (the General MIDI drum note for drum hits).
+-- velocity_layer: softest MIDI velocity the one-shot plays for; one-shots on the same note and
+-- layer take turns.
+alter table public.samples
+  add column kit_id uuid references public.sample_kits (id) on delete cascade,
+  add column root_note smallint check (root_note between 0 and 127),
+  add column velocity_layer smallint not null default 1 check (velocity_layer between 1 and 127);